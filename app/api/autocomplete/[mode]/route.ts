@@ -0,0 +1,39 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+
+import { AUTOCOMPLETE_MODES } from "@/lib/api/client"
+import {
+  badRequest,
+  CACHE_CONTROL,
+  getRequestId,
+  proxyResult,
+  REQUEST_ID_HEADER,
+  searchParamsToObject,
+  UPSTREAM_TIMEOUT_MS,
+} from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+
+const modeSchema = z.enum(AUTOCOMPLETE_MODES)
+
+const querySchema = z.object({
+  q: z.string().trim().min(1, "q is required"),
+  size: z.coerce.number().int().min(1).max(20).default(5),
+})
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ mode: string }> }) {
+  const requestId = getRequestId(request)
+  const mode = modeSchema.safeParse((await params).mode)
+  if (!mode.success) {
+    return badRequest(`Unknown autocomplete mode, expected one of ${AUTOCOMPLETE_MODES.join(", ")}`, requestId)
+  }
+  const query = querySchema.safeParse(searchParamsToObject(request.nextUrl.searchParams))
+  if (!query.success) {
+    return badRequest(query.error.issues[0].message, requestId)
+  }
+
+  const result = await backendClient.autocomplete(mode.data, query.data, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.default),
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  })
+  return proxyResult(result, requestId, CACHE_CONTROL.autocomplete)
+}
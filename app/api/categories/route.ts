@@ -0,0 +1,19 @@
+import type { NextRequest } from "next/server"
+
+import {
+  CACHE_CONTROL,
+  getRequestId,
+  proxyResult,
+  REQUEST_ID_HEADER,
+  UPSTREAM_TIMEOUT_MS,
+} from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+
+export async function GET(request: NextRequest) {
+  const requestId = getRequestId(request)
+  const result = await backendClient.categories({
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.default),
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  })
+  return proxyResult(result, requestId, CACHE_CONTROL.categories)
+}
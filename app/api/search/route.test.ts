@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+
+import { REQUEST_ID_HEADER } from "@/lib/api/proxy"
+
+let GET: (request: NextRequest) => Promise<Response>
+
+// The backend client is picked when lib/api/server loads, so the mock is switched on first
+beforeAll(async () => {
+  vi.stubEnv("SEARCH_API_MOCK", "true")
+  ;({ GET } = await import("./route"))
+})
+
+function search(query: string, headers?: Record<string, string>): Promise<Response> {
+  return GET(new NextRequest(`http://localhost/api/search?${query}`, { headers }))
+}
+
+describe("GET /api/search", () => {
+  it("answers with the mock backend's results", async () => {
+    const response = await search("q=journeymap&size=5")
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.query).toBe("journeymap")
+    expect(body.results.length).toBeGreaterThan(0)
+    expect(body.results.length).toBeLessThanOrEqual(5)
+    expect(body.results[0]).toMatchObject({ title: "JourneyMap" })
+  })
+
+  it("passes the category filter on", async () => {
+    const response = await search("q=delight&category=Food&category_mode=or")
+    const body = await response.json()
+    expect(body.results.length).toBeGreaterThan(0)
+    expect(body.results.every((mod: { categories: string[] }) => mod.categories.indexOf("Food") !== -1)).toBe(true)
+  })
+
+  it("echoes the request id, or makes one up", async () => {
+    const given = await search("q=create", { [REQUEST_ID_HEADER]: "test-request" })
+    expect(given.headers.get(REQUEST_ID_HEADER)).toBe("test-request")
+    const made = await search("q=create")
+    expect(made.headers.get(REQUEST_ID_HEADER)).toBeTruthy()
+  })
+
+  it("rejects a search without a query", async () => {
+    const response = await search("q=%20&size=5")
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error).toMatchObject({ message: "q is required" })
+    expect(body.requestId).toBe(response.headers.get(REQUEST_ID_HEADER))
+  })
+})
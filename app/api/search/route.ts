@@ -0,0 +1,46 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+
+import { CATEGORY_MODES, SORT_ORDERS } from "@/lib/api/schemas"
+import {
+  badRequest,
+  CACHE_CONTROL,
+  getRequestId,
+  proxyResult,
+  REQUEST_ID_HEADER,
+  searchParamsToObject,
+  UPSTREAM_TIMEOUT_MS,
+} from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+
+const querySchema = z.object({
+  q: z.string().trim().min(1, "q is required"),
+  size: z.coerce.number().int().min(1).max(100).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  category: z.array(z.string()),
+  exclude_category: z.array(z.string()),
+  category_mode: z.enum(CATEGORY_MODES).default("or"),
+  sort: z.enum(SORT_ORDERS).default("relevance"),
+  author: z.string().trim().min(1).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  const requestId = getRequestId(request)
+  const { searchParams } = request.nextUrl
+  const parsed = querySchema.safeParse({
+    ...searchParamsToObject(searchParams),
+    category: searchParams.getAll("category"),
+    exclude_category: searchParams.getAll("exclude_category"),
+  })
+  if (!parsed.success) {
+    return badRequest(parsed.error.issues[0].message, requestId)
+  }
+
+  const { q, size, offset, category, exclude_category, category_mode, sort, author } = parsed.data
+  const categories = { include: category, exclude: exclude_category, mode: category_mode }
+  const result = await backendClient.search({ q, size, offset, categories, sort, author }, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.default),
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  })
+  return proxyResult(result, requestId, CACHE_CONTROL.search)
+}
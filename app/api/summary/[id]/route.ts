@@ -0,0 +1,28 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+
+import {
+  badRequest,
+  CACHE_CONTROL,
+  getRequestId,
+  proxyResult,
+  REQUEST_ID_HEADER,
+  UPSTREAM_TIMEOUT_MS,
+} from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+
+const idSchema = z.coerce.number().int().positive()
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestId(request)
+  const id = idSchema.safeParse((await params).id)
+  if (!id.success) {
+    return badRequest("Mod id must be a positive integer", requestId)
+  }
+
+  const result = await backendClient.summary(id.data, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.summary),
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  })
+  return proxyResult(result, requestId, CACHE_CONTROL.summary)
+}
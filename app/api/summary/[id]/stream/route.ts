@@ -0,0 +1,45 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+
+import {
+  badRequest,
+  CACHE_CONTROL,
+  errorResponse,
+  getRequestId,
+  REQUEST_ID_HEADER,
+  UPSTREAM_TIMEOUT_MS,
+} from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+
+const idSchema = z.coerce.number().int().positive()
+
+// Passes the backend's event stream through as it arrives. Stopping in the browser aborts the
+// request, which also cancels the upstream one so the model stops generating.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const requestId = getRequestId(request)
+  const id = idSchema.safeParse((await params).id)
+  if (!id.success) {
+    return badRequest("Mod id must be a positive integer", requestId)
+  }
+
+  const result = await backendClient.summaryStream(id.data, {
+    signal: AbortSignal.any([request.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.summary)]),
+    headers: { [REQUEST_ID_HEADER]: requestId },
+  })
+  if (!result.ok) {
+    // A 404, or an answer that is not an event stream, means the backend cannot stream. Both reach
+    // the browser as "not implemented" statuses, so it asks for the whole summary instead.
+    if (result.error.kind === "invalid_response") return errorResponse(result.error, requestId, 501)
+    if (result.error.status !== 404) console.error(`[${requestId}] Upstream request failed:`, result.error)
+    return errorResponse(result.error, requestId)
+  }
+  return new Response(result.data, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": CACHE_CONTROL.none,
+      // Keeps reverse proxies from buffering the events
+      "X-Accel-Buffering": "no",
+      [REQUEST_ID_HEADER]: requestId,
+    },
+  })
+}
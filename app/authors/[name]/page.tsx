@@ -0,0 +1,128 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { ModListItem } from "@/components/mods/mod-list-item"
+import { EmptyState } from "@/components/search/empty-state"
+import { SearchHero } from "@/components/search/search-hero"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ArrowLeft, Star } from "lucide-react"
+import { findModsByAuthor } from "@/lib/api"
+import { backendClient } from "@/lib/api/server"
+import { summarizePortfolio } from "@/lib/authors"
+import { modHref } from "@/lib/mods"
+
+interface AuthorPageProps {
+  params: Promise<{ name: string }>
+}
+
+const TOP_MODS_COUNT = 5
+
+// Shared by generateMetadata and the page so the backend is only asked once per request
+const getAuthorMods = cache((author: string) => findModsByAuthor(backendClient, author))
+
+async function getAuthorName(params: AuthorPageProps["params"]): Promise<string> {
+  const { name } = await params
+  try {
+    return decodeURIComponent(name)
+  } catch {
+    return name
+  }
+}
+
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const author = await getAuthorName(params)
+  return {
+    title: `${author} - Minecraft Mods Search Engine`,
+    description: `Minecraft mods by ${author} on CurseForge`,
+  }
+}
+
+export default async function AuthorPage({ params }: AuthorPageProps) {
+  const author = await getAuthorName(params)
+  const result = await getAuthorMods(author)
+  if (!result.ok) {
+    console.error("Error fetching author mods:", result.error)
+    return (
+      <>
+        <SearchHero />
+        <EmptyState
+          title="🚫 THE MINES ARE UNREACHABLE"
+          message="The search service did not answer. Try again in a moment!"
+        />
+      </>
+    )
+  }
+  if (result.data.length === 0) notFound()
+
+  const mods = result.data
+  const portfolio = summarizePortfolio(mods, TOP_MODS_COUNT)
+
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> NEW SEARCH
+        </Link>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-3xl text-blue-700 dark:text-blue-400 font-mono font-bold">👤 {author}</CardTitle>
+              <span className="text-gray-700 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded border border-gray-300 dark:border-gray-600">
+                {portfolio.modCount} mod{portfolio.modCount !== 1 ? "s" : ""}
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <h3 className="text-lg font-bold text-green-700 dark:text-green-400 font-mono mb-3">🏷️ CATEGORY BREAKDOWN</h3>
+            <div className="flex flex-wrap gap-2">
+              {portfolio.categories.map(({ category, count }) => (
+                <Badge
+                  key={category}
+                  className="bg-green-700 hover:bg-green-600 text-green-100 border border-green-600 font-mono font-semibold px-3 py-1"
+                >
+                  🏷️ {category} × {count}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-yellow-600">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <CardTitle className="text-yellow-700 dark:text-yellow-400 font-mono font-bold text-xl">⭐ MOST POPULAR</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <ol className="space-y-3">
+              {portfolio.topMods.map((mod) => (
+                <li key={mod.id} className="flex items-center justify-between">
+                  <Link href={modHref(mod)} className="text-green-700 dark:text-green-400 font-mono font-bold hover:underline">
+                    🧩 {mod.title}
+                  </Link>
+                  <span className="flex items-center text-yellow-700 dark:text-yellow-400 font-mono">
+                    <Star className="w-4 h-4 mr-1" />#{mod.popularityRank.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <CardTitle className="text-green-700 dark:text-green-400 font-mono font-bold text-xl">📦 ALL MODS</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6 grid gap-4">
+            {mods.map((mod) => (
+              <ModListItem key={mod.id} mod={mod} />
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
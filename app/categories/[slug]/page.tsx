@@ -0,0 +1,126 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+
+import { CategoryBreadcrumb } from "@/components/categories/category-breadcrumb"
+import { CategorySortSelect } from "@/components/categories/category-sort-select"
+import { ModListItem } from "@/components/mods/mod-list-item"
+import { EmptyState } from "@/components/search/empty-state"
+import { NumberedPagination } from "@/components/search/numbered-pagination"
+import { SearchHero } from "@/components/search/search-hero"
+import { browseCategory, listCategories, SORT_ORDERS, type ApiResult, type CategoryInfo } from "@/lib/api"
+import { backendClient } from "@/lib/api/server"
+import { categoryHref, findCategoryBySlug } from "@/lib/categories"
+import { toURLSearchParams, type PageSearchParams } from "@/lib/search-params"
+
+interface CategoryPageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<PageSearchParams>
+}
+
+const CATEGORY_PAGE_SIZE = 20
+
+// Searching for a category name makes relevance meaningless, so browsing defaults to popularity
+const DEFAULT_CATEGORY_SORT = "popularity"
+
+// Shared by generateMetadata and the page so the backend is only asked once per request
+const getCategories = cache(() => listCategories(backendClient))
+
+// Only a slug missing from the list is a 404, an unreachable backend is reported as such
+async function getCategory(params: CategoryPageProps["params"]): Promise<ApiResult<CategoryInfo>> {
+  const { slug } = await params
+  const categories = await getCategories()
+  if (!categories.ok) return categories
+  const category = findCategoryBySlug(categories.data, slug)
+  if (!category) notFound()
+  return { ok: true, data: category }
+}
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const category = await getCategory(params)
+  if (!category.ok) return { title: "Categories - Minecraft Mods Search Engine" }
+  const { name } = category.data
+  return {
+    title: `${name} - Minecraft Mods Search Engine`,
+    description: `Minecraft mods in the ${name} category on CurseForge`,
+  }
+}
+
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const categoryResult = await getCategory(params)
+  if (!categoryResult.ok) {
+    console.error("Error fetching categories:", categoryResult.error)
+    return (
+      <>
+        <SearchHero />
+        <EmptyState
+          title="🚫 THE MINES ARE UNREACHABLE"
+          message="The search service did not answer. Try again in a moment!"
+        />
+      </>
+    )
+  }
+  const category = categoryResult.data
+  const query = toURLSearchParams(await searchParams)
+  const page = Math.max(1, parseInt(query.get("page") ?? "", 10) || 1)
+  const sort = SORT_ORDERS.find((value) => value === query.get("sort")) ?? DEFAULT_CATEGORY_SORT
+
+  const result = await browseCategory(backendClient, category.name, { page, pageSize: CATEGORY_PAGE_SIZE, sort })
+  if (!result.ok) {
+    console.error("Error browsing category:", result.error)
+    return (
+      <>
+        <SearchHero />
+        <EmptyState
+          title="🚫 THE MINES ARE UNREACHABLE"
+          message="The search service did not answer. Try again in a moment!"
+        />
+      </>
+    )
+  }
+
+  const { mods, total, hasNextPage } = result.data
+  const count = total ?? category.count
+
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <CategoryBreadcrumb category={category.name} />
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">🏷️ {category.name}</h2>
+          <div className="flex items-center gap-4">
+            {count !== undefined && (
+              <span className="text-gray-700 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded border border-gray-300 dark:border-gray-600">
+                {count.toLocaleString()} mod{count !== 1 ? "s" : ""}
+              </span>
+            )}
+            <CategorySortSelect value={sort} />
+          </div>
+        </div>
+
+        {mods.length === 0 ? (
+          <EmptyState
+            title="⛏️ NOTHING MINED HERE"
+            message={page > 1 ? "This page is past the last mod in the category." : "No mods are indexed in this category yet."}
+          />
+        ) : (
+          <div className="grid gap-4">
+            {mods.map((mod) => (
+              <ModListItem key={mod.id} mod={mod} />
+            ))}
+          </div>
+        )}
+
+        <NumberedPagination
+          page={page}
+          totalPages={total !== undefined ? Math.max(1, Math.ceil(total / CATEGORY_PAGE_SIZE)) : undefined}
+          hasNextPage={hasNextPage}
+          pathname={categoryHref(category.name)}
+          query={query.toString()}
+        />
+      </div>
+    </>
+  )
+}
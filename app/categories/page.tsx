@@ -0,0 +1,56 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+
+import { CategoryBreadcrumb } from "@/components/categories/category-breadcrumb"
+import { EmptyState } from "@/components/search/empty-state"
+import { SearchHero } from "@/components/search/search-hero"
+import { listCategories } from "@/lib/api"
+import { backendClient } from "@/lib/api/server"
+import { categoryHref } from "@/lib/categories"
+
+export const metadata: Metadata = {
+  title: "Categories - Minecraft Mods Search Engine",
+  description: "Browse Minecraft mods on CurseForge by category",
+}
+
+export default async function CategoriesPage() {
+  const result = await listCategories(backendClient)
+  if (!result.ok) {
+    console.error("Error fetching categories:", result.error)
+    return (
+      <>
+        <SearchHero />
+        <EmptyState
+          title="🚫 THE MINES ARE UNREACHABLE"
+          message="The search service did not answer. Try again in a moment!"
+        />
+      </>
+    )
+  }
+
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <CategoryBreadcrumb />
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">🏷️ BROWSE BY CATEGORY</h2>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {result.data.map(({ name, count }) => (
+            <Link
+              key={name}
+              href={categoryHref(name)}
+              className="flex items-center justify-between bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 hover:border-green-500 transition-colors"
+            >
+              <span className="font-bold text-green-700 dark:text-green-400 font-mono">{name}</span>
+              {count !== undefined && (
+                <span className="text-xs font-mono text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                  {count.toLocaleString()} mod{count !== 1 ? "s" : ""}
+                </span>
+              )}
+            </Link>
+          ))}
+        </div>
+      </div>
+    </>
+  )
+}
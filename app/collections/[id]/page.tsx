@@ -0,0 +1,28 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { CollectionDetail } from "@/components/collections/collection-detail"
+import { SearchHero } from "@/components/search/search-hero"
+
+export const metadata: Metadata = {
+  title: "Collection - Minecraft Mods Search Engine",
+  description: "A modpack collection",
+}
+
+// Collections live in localStorage, so the server only knows the id
+export default async function CollectionPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/collections" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> ALL COLLECTIONS
+        </Link>
+        <CollectionDetail id={id} />
+      </div>
+    </>
+  )
+}
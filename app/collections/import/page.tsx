@@ -0,0 +1,26 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { ModListImport } from "@/components/collections/mod-list-import"
+import { SearchHero } from "@/components/search/search-hero"
+
+export const metadata: Metadata = {
+  title: "Import a mod list - Minecraft Mods Search Engine",
+  description: "Turn a list of mod names into a collection",
+}
+
+export default function ImportModListPage() {
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/collections" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> ALL COLLECTIONS
+        </Link>
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">📋 IMPORT A MOD LIST</h2>
+        <ModListImport />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next"
+
+import { CollectionsList } from "@/components/collections/collections-list"
+import { SearchHero } from "@/components/search/search-hero"
+
+export const metadata: Metadata = {
+  title: "Collections - Minecraft Mods Search Engine",
+  description: "Your modpack collections",
+}
+
+// Collections live in localStorage, so the list renders on the client
+export default function CollectionsPage() {
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">📦 COLLECTIONS</h2>
+        <CollectionsList />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,50 @@
+import type React from "react"
+import { Suspense } from "react"
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { ComparedMods } from "@/components/compare/compared-mods"
+import { ModSummary } from "@/components/mods/mod-summary"
+import { SearchHero } from "@/components/search/search-hero"
+import { Skeleton } from "@/components/ui/skeleton"
+import { parseCompareIds } from "@/lib/compare"
+import type { PageSearchParams } from "@/lib/search-params"
+
+interface ComparePageProps {
+  searchParams: Promise<PageSearchParams>
+}
+
+export const metadata: Metadata = {
+  title: "Compare mods - Minecraft Mods Search Engine",
+  description: "Minecraft mods side by side",
+}
+
+// The compared mods live in localStorage, so the table renders on the client; only the AI
+// summaries are fetched here
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const ids = parseCompareIds((await searchParams).ids)
+
+  // Each summary loads on its own, so one slow or failed summary leaves the rest of the table be
+  const summaries: Record<number, React.ReactNode> = {}
+  ids.forEach((id) => {
+    summaries[id] = (
+      <Suspense fallback={<Skeleton className="h-20 bg-gray-100 dark:bg-gray-700" />}>
+        <ModSummary modId={id} className="text-sm text-purple-800 dark:text-purple-200" />
+      </Suspense>
+    )
+  })
+
+  return (
+    <>
+      <SearchHero />
+      <div className="space-y-6">
+        <Link href="/" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> NEW SEARCH
+        </Link>
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">⚖️ COMPARE MODS</h2>
+        <ComparedMods ids={ids} summaries={summaries} />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+import { SearchHistoryList } from "@/components/history/search-history-list"
+import { SearchHero } from "@/components/search/search-hero"
+
+export const metadata: Metadata = {
+  title: "Search history - Minecraft Mods Search Engine",
+  description: "Your recent Minecraft mod searches",
+}
+
+// The history lives in localStorage, so the list renders on the client
+export default function HistoryPage() {
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> NEW SEARCH
+        </Link>
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">🕘 SEARCH HISTORY</h2>
+        <SearchHistoryList />
+      </div>
+    </>
+  )
+}
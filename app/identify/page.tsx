@@ -0,0 +1,21 @@
+import type { Metadata } from "next"
+
+import { JarIdentifier } from "@/components/jars/jar-identifier"
+import { SearchHero } from "@/components/search/search-hero"
+
+export const metadata: Metadata = {
+  title: "Identify installed mods - Minecraft Mods Search Engine",
+  description: "Find out which mods the jars in a mods folder are",
+}
+
+export default function IdentifyPage() {
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-5xl mx-auto space-y-6">
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">🧪 IDENTIFY INSTALLED MODS</h2>
+        <JarIdentifier />
+      </div>
+    </>
+  )
+}
@@ -1,8 +1,15 @@
 import type React from "react"
+import { Suspense } from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import "./globals.css"
 
+import { CommandPalette } from "@/components/command-palette/command-palette"
+import { PaletteCommandsProvider } from "@/components/command-palette/palette-commands"
+import { CompareTray } from "@/components/compare/compare-tray"
+import { SiteHeader } from "@/components/site-header"
+import { ThemeProvider } from "@/components/theme-provider"
+
 const inter = Inter({ subsets: ["latin"] })
 
 export const metadata: Metadata = {
@@ -17,8 +24,23 @@ export default function RootLayout({
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    // next-themes sets the theme class before hydration
+    <html lang="en" suppressHydrationWarning>
+      <body className={inter.className}>
+        <ThemeProvider attribute="class" defaultTheme="dark" enableSystem={false}>
+          <PaletteCommandsProvider>
+            <div className="min-h-screen bg-gradient-to-br from-green-100 via-green-300 to-gray-300 dark:from-gray-900 dark:via-green-900 dark:to-gray-800">
+              <SiteHeader />
+              <div className="container mx-auto px-4 py-8">{children}</div>
+            </div>
+            <CompareTray />
+            {/* Reads the search params, which static pages only have on the client */}
+            <Suspense fallback={null}>
+              <CommandPalette />
+            </Suspense>
+          </PaletteCommandsProvider>
+        </ThemeProvider>
+      </body>
     </html>
   )
 }
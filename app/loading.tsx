@@ -1,3 +1,16 @@
+import { ResultsSkeleton } from "@/components/search/results-skeleton"
+import { SearchHero } from "@/components/search/search-hero"
+import { Skeleton } from "@/components/ui/skeleton"
+
 export default function Loading() {
-  return null
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-2xl mx-auto mb-8 space-y-4">
+        <Skeleton className="h-[72px] bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700" />
+        <Skeleton className="h-[62px] bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600" />
+      </div>
+      <ResultsSkeleton />
+    </>
+  )
 }
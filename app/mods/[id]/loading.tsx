@@ -0,0 +1,22 @@
+import { SearchHero } from "@/components/search/search-hero"
+import { Skeleton } from "@/components/ui/skeleton"
+
+export default function Loading() {
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6" aria-busy="true" aria-label="Loading mod">
+        <Skeleton className="h-5 w-32 bg-white dark:bg-gray-800" />
+        <div className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
+          <Skeleton className="h-9 w-1/2 bg-gray-100 dark:bg-gray-700" />
+          <Skeleton className="h-7 w-72 bg-gray-100 dark:bg-gray-700" />
+          <Skeleton className="h-20 w-full bg-gray-100 dark:bg-gray-700" />
+        </div>
+        <div className="bg-white dark:bg-gray-800 border-2 border-purple-600 rounded-lg p-6 space-y-4">
+          <Skeleton className="h-7 w-64 bg-gray-100 dark:bg-gray-700" />
+          <Skeleton className="h-28 w-full bg-gray-100 dark:bg-gray-700" />
+        </div>
+      </div>
+    </>
+  )
+}
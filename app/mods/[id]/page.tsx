@@ -0,0 +1,158 @@
+import { cache, Suspense } from "react"
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { AuthorLinks } from "@/components/authors/author-link"
+import { AddToCollectionButton } from "@/components/collections/add-to-collection-button"
+import { FavoriteButton } from "@/components/favorites/favorite-button"
+import { ModSummary } from "@/components/mods/mod-summary"
+import { RelatedMods } from "@/components/mods/related-mods"
+import { EmptyState } from "@/components/search/empty-state"
+import { SearchHero } from "@/components/search/search-hero"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ArrowLeft, ExternalLink, Sparkles, Star, Users } from "lucide-react"
+import { lookupMod } from "@/lib/api"
+import { UPSTREAM_TIMEOUT_MS } from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+import { categoryHref } from "@/lib/categories"
+import { parseModParam } from "@/lib/mods"
+
+interface ModPageProps {
+  params: Promise<{ id: string }>
+}
+
+// Shared by generateMetadata and the page so the backend is only asked once per request
+const getMod = cache(async (param: string) => {
+  const parsed = parseModParam(decodeURIComponent(param))
+  if (!parsed) notFound()
+
+  const result = await lookupMod(backendClient, parsed.id, parsed.title, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.default),
+  })
+  if (!result.ok && result.error.status === 404) notFound()
+  return result
+})
+
+export async function generateMetadata({ params }: ModPageProps): Promise<Metadata> {
+  const result = await getMod((await params).id)
+  if (!result.ok) return { title: "Minecraft Mods Search Engine" }
+  return {
+    title: `${result.data.title} - Minecraft Mods Search Engine`,
+    description: result.data.description,
+  }
+}
+
+export default async function ModPage({ params }: ModPageProps) {
+  const result = await getMod((await params).id)
+  if (!result.ok) {
+    console.error("Error fetching mod:", result.error)
+    return (
+      <>
+        <SearchHero />
+        <EmptyState
+          title="🚫 THE MINES ARE UNREACHABLE"
+          message="The search service did not answer. Try again in a moment!"
+        />
+      </>
+    )
+  }
+
+  const mod = result.data
+
+  return (
+    <>
+      <SearchHero />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/" className="inline-flex items-center text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          <ArrowLeft className="w-4 h-4 mr-2" /> NEW SEARCH
+        </Link>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <CardTitle className="text-3xl mb-4 text-green-700 dark:text-green-400 font-mono font-bold">🧩 {mod.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="flex items-center bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                    <Users className="w-4 h-4 mr-2 text-blue-700 dark:text-blue-400" />
+                    <span className="font-mono">
+                      <AuthorLinks authors={mod.authors} />
+                    </span>
+                  </span>
+                  <span className="flex items-center bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                    <Star className="w-4 h-4 mr-2 text-yellow-700 dark:text-yellow-400" />
+                    <span className="font-mono">Download Count: #{mod.popularityRank.toLocaleString()}</span>
+                  </span>
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <FavoriteButton mod={mod} />
+                <AddToCollectionButton mod={mod} />
+                <Button
+                  asChild
+                  variant="outline"
+                  size="sm"
+                  className="bg-blue-700 hover:bg-blue-600 text-white border-blue-600 font-mono font-bold"
+                >
+                  <a href={mod.websiteUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="w-4 h-4 mr-2" /> VIEW ON CURSEFORGE
+                  </a>
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-6">
+            <p className="text-gray-700 dark:text-gray-300 font-mono leading-relaxed">{mod.description}</p>
+            <div className="flex flex-wrap gap-2">
+              {mod.categories.map((category) => (
+                <Link key={category} href={categoryHref(category)}>
+                  <Badge className="bg-green-700 hover:bg-green-600 text-green-100 border border-green-600 font-mono font-semibold px-3 py-1">
+                    🏷️ {category}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-purple-600">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <CardTitle className="flex items-center text-purple-700 dark:text-purple-400 font-mono font-bold text-xl">
+              <Sparkles className="w-6 h-6 mr-3 text-purple-700 dark:text-purple-400" />🔮 AI ENCHANTMENT SUMMARY
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-300 dark:border-gray-600">
+              <Suspense fallback={<Skeleton className="h-24 bg-white dark:bg-gray-800" />}>
+                <ModSummary modId={mod.id} className="text-gray-700 dark:text-gray-300" />
+              </Suspense>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+          <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+            <CardTitle className="text-green-700 dark:text-green-400 font-mono font-bold text-xl">🔗 RELATED MODS</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Suspense
+              fallback={
+                <div className="grid gap-4 md:grid-cols-2">
+                  {[0, 1, 2, 3].map((index) => (
+                    <Skeleton key={index} className="h-20 bg-gray-100 dark:bg-gray-700" />
+                  ))}
+                </div>
+              }
+            >
+              <RelatedMods mod={mod} />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
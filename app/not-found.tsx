@@ -0,0 +1,18 @@
+import Link from "next/link"
+
+import { EmptyState } from "@/components/search/empty-state"
+import { SearchHero } from "@/components/search/search-hero"
+
+export default function NotFound() {
+  return (
+    <>
+      <SearchHero />
+      <EmptyState title="🚫 NOTHING MINED HERE" message="This page does not exist, or the mod left the index." />
+      <div className="text-center mt-6">
+        <Link href="/" className="text-green-700 dark:text-green-400 font-mono hover:text-green-600 dark:hover:text-green-300">
+          ⛏️ BACK TO SEARCH
+        </Link>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,44 @@
+import { Suspense } from "react"
+import type { Metadata } from "next"
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+
+import { ResultsSkeleton } from "@/components/search/results-skeleton"
+import { SearchBox } from "@/components/search/search-box"
+import { SearchHero } from "@/components/search/search-hero"
+import { SearchResultsSection } from "@/components/search/search-results-section"
+import { parseSearchState, searchResultsKey, toURLSearchParams, type PageSearchParams } from "@/lib/search-params"
+import { PAGINATION_COOKIE, parsePaginationMode } from "@/lib/settings"
+
+interface SearchPageProps {
+  searchParams: Promise<PageSearchParams>
+}
+
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  const { q } = parseSearchState(toURLSearchParams(await searchParams))
+  return {
+    title: `${q} - Minecraft Mods Search Engine`,
+    description: `Minecraft mods matching "${q}" on CurseForge`,
+  }
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const state = parseSearchState(toURLSearchParams(await searchParams))
+  if (!state.q.trim()) {
+    redirect("/")
+  }
+  const paginationMode = parsePaginationMode((await cookies()).get(PAGINATION_COOKIE)?.value)
+  const resultsKey = searchResultsKey(paginationMode === "load-more" ? { ...state, page: 1 } : state)
+
+  return (
+    <>
+      <SearchHero />
+      <SearchBox />
+      {/* A new key per search shows the skeleton again instead of the previous results. Loading
+          more pages keeps the key, so the loaded ones stay on screen meanwhile. */}
+      <Suspense key={`${paginationMode}:${resultsKey}`} fallback={<ResultsSkeleton />}>
+        <SearchResultsSection state={state} paginationMode={paginationMode} />
+      </Suspense>
+    </>
+  )
+}
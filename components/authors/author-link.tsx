@@ -0,0 +1,104 @@
+"use client"
+
+import { Fragment, useState } from "react"
+import Link from "next/link"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { apiClient, findModsByAuthor, type ApiResult, type ModResult } from "@/lib/api"
+import { authorHref, summarizePortfolio, type AuthorPortfolio } from "@/lib/authors"
+
+// One request per author for the lifetime of the page, shared by every card they appear on
+const portfolioRequests: Record<string, Promise<ApiResult<ModResult[]>>> = {}
+
+function requestPortfolio(author: string): Promise<ApiResult<ModResult[]>> {
+  const key = author.toLowerCase()
+  if (!portfolioRequests[key]) {
+    portfolioRequests[key] = findModsByAuthor(apiClient, author).then((result) => {
+      if (!result.ok) delete portfolioRequests[key]
+      return result
+    })
+  }
+  return portfolioRequests[key]
+}
+
+type PortfolioState =
+  | { status: "idle" | "loading" | "error" }
+  | { status: "ready"; portfolio: AuthorPortfolio }
+
+export function AuthorLink({ author }: { author: string }) {
+  const [state, setState] = useState<PortfolioState>({ status: "idle" })
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || state.status === "loading" || state.status === "ready") return
+
+    setState({ status: "loading" })
+    const result = await requestPortfolio(author)
+    if (result.ok) {
+      setState({ status: "ready", portfolio: summarizePortfolio(result.data, 3) })
+    } else {
+      console.error("Error fetching author portfolio:", result.error)
+      setState({ status: "error" })
+    }
+  }
+
+  return (
+    <HoverCard openDelay={300} onOpenChange={handleOpenChange}>
+      <HoverCardTrigger asChild>
+        <Link href={authorHref(author)} className="hover:underline hover:text-blue-600 dark:hover:text-blue-300">
+          {author}
+        </Link>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+        <h4 className="font-bold text-blue-700 dark:text-blue-400 mb-2">👤 {author}</h4>
+        {state.status === "ready" ? (
+          <div className="space-y-2 text-sm">
+            <p className="text-gray-700 dark:text-gray-300">
+              {state.portfolio.modCount} mod{state.portfolio.modCount !== 1 ? "s" : ""} in the index
+            </p>
+            {state.portfolio.categories.length > 0 && (
+              <p className="text-gray-600 dark:text-gray-400">
+                Mostly{" "}
+                {state.portfolio.categories.slice(0, 2).map((category, index) => (
+                  <Fragment key={category.category}>
+                    {index > 0 && " & "}
+                    <span className="text-green-700 dark:text-green-400">{category.category}</span>
+                  </Fragment>
+                ))}
+              </p>
+            )}
+            <ul className="space-y-1">
+              {state.portfolio.topMods.map((mod) => (
+                <li key={mod.id} className="flex justify-between text-gray-700 dark:text-gray-300">
+                  <span className="truncate mr-2">🧩 {mod.title}</span>
+                  <span className="text-yellow-700 dark:text-yellow-400">#{mod.popularityRank.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : state.status === "error" ? (
+          <p className="text-sm text-gray-500">Could not mine this author's portfolio.</p>
+        ) : (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-32 bg-gray-100 dark:bg-gray-700" />
+            <Skeleton className="h-4 w-48 bg-gray-100 dark:bg-gray-700" />
+            <Skeleton className="h-4 w-40 bg-gray-100 dark:bg-gray-700" />
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+// Comma separated author links, as shown on cards
+export function AuthorLinks({ authors }: { authors: string[] }) {
+  return (
+    <>
+      {authors.map((author, index) => (
+        <Fragment key={author}>
+          {index > 0 && ", "}
+          <AuthorLink author={author} />
+        </Fragment>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,45 @@
+import Link from "next/link"
+
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+
+const linkClassName = "text-green-700 dark:text-green-400 hover:text-green-600 dark:hover:text-green-300"
+
+// Home › Categories, plus the category itself on its own page
+export function CategoryBreadcrumb({ category }: { category?: string }) {
+  return (
+    <Breadcrumb>
+      <BreadcrumbList className="font-mono text-gray-600 dark:text-gray-400">
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild className={linkClassName}>
+            <Link href="/">HOME</Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator />
+        <BreadcrumbItem>
+          {category ? (
+            <BreadcrumbLink asChild className={linkClassName}>
+              <Link href="/categories">CATEGORIES</Link>
+            </BreadcrumbLink>
+          ) : (
+            <BreadcrumbPage className="text-gray-800 dark:text-gray-200">CATEGORIES</BreadcrumbPage>
+          )}
+        </BreadcrumbItem>
+        {category && (
+          <>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage className="text-gray-800 dark:text-gray-200">{category}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </>
+        )}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
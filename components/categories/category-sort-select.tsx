@@ -0,0 +1,24 @@
+"use client"
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+
+import { SortSelect } from "@/components/search/sort-select"
+import type { SortOrder } from "@/lib/api"
+
+// The order changes and paging starts over, the rest of the query string is kept
+export function CategorySortSelect({ value }: { value: SortOrder }) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const handleChange = (sort: SortOrder) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (sort === "popularity") params.delete("sort")
+    else params.set("sort", sort)
+    params.delete("page")
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  return <SortSelect value={value} onChange={handleChange} />
+}
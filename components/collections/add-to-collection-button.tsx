@@ -0,0 +1,99 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { Check, FolderPlus, Plus } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useLocalStore } from "@/hooks/use-local-store"
+import type { ModResult } from "@/lib/api"
+import {
+  addToCollection,
+  collectionsStore,
+  createCollection,
+  hasMod,
+  removeFromCollection,
+} from "@/lib/collections"
+import { cn } from "@/lib/utils"
+
+export function AddToCollectionButton({ mod }: { mod: ModResult }) {
+  const collections = useLocalStore(collectionsStore)
+  const [newName, setNewName] = useState("")
+  const inCount = collections.filter((collection) => hasMod(collection, mod.id)).length
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+    createCollection(newName, [{ mod, note: "" }])
+    setNewName("")
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={`Add ${mod.title} to a collection`}
+          title="Add to collection"
+          className={cn(
+            "h-9 w-9 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600",
+            inCount > 0 ? "text-green-700 dark:text-green-400 hover:text-green-600 dark:hover:text-green-300" : "text-gray-600 dark:text-gray-400 hover:text-green-700 dark:hover:text-green-400",
+          )}
+        >
+          <FolderPlus className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono p-3">
+        <p className="text-sm font-bold text-green-700 dark:text-green-400 mb-2">📦 ADD TO COLLECTION</p>
+        {collections.length > 0 && (
+          <ul className="max-h-56 overflow-y-auto mb-3 space-y-1">
+            {collections.map((collection) => {
+              const included = hasMod(collection, mod.id)
+              return (
+                <li key={collection.id}>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      included ? removeFromCollection(collection.id, mod.id) : addToCollection(collection.id, mod)
+                    }
+                    aria-pressed={included}
+                    className="flex w-full items-center px-2 py-1.5 rounded text-sm text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <Check className={cn("w-4 h-4 mr-2 shrink-0 text-green-700 dark:text-green-400", !included && "invisible")} />
+                    <span className="flex-1 truncate">{collection.name}</span>
+                    <span className="text-xs text-gray-600 dark:text-gray-400">{collection.items.length}</span>
+                  </button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New collection..."
+            aria-label="New collection name"
+            className="h-8 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!newName.trim()}
+            aria-label="Create collection with this mod"
+            className="h-8 w-8 shrink-0 bg-green-600 hover:bg-green-700"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+        <Link href="/collections" className="block mt-3 text-xs text-gray-600 dark:text-gray-400 hover:text-green-700 dark:hover:text-green-400">
+          MANAGE COLLECTIONS →
+        </Link>
+      </PopoverContent>
+    </Popover>
+  )
+}
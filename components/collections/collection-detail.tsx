@@ -0,0 +1,269 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowDown, ArrowUp, Download, GripVertical, Trash2, X } from "lucide-react"
+
+import { PackExportDialog } from "@/components/collections/pack-export-dialog"
+import { EmptyState } from "@/components/search/empty-state"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useHasHydrated, useLocalStore } from "@/hooks/use-local-store"
+import {
+  collectionsStore,
+  deleteCollection,
+  exportCollection,
+  findCollection,
+  moveCollectionItem,
+  removeFromCollection,
+  renameCollection,
+  setCollectionNote,
+} from "@/lib/collections"
+import { downloadFile, exportFilename } from "@/lib/export"
+import { countCategories } from "@/lib/facets"
+import { modHref } from "@/lib/mods"
+import { cn } from "@/lib/utils"
+
+const iconButtonClassName = "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 h-8 w-8"
+
+export function CollectionDetail({ id }: { id: string }) {
+  const router = useRouter()
+  const hydrated = useHasHydrated()
+  const collection = findCollection(useLocalStore(collectionsStore), id)
+  // Rows only become draggable from their handle, so notes can still be selected with the mouse
+  const [draggableIndex, setDraggableIndex] = useState<number | null>(null)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  if (!hydrated) return null
+  if (!collection) {
+    return (
+      <EmptyState
+        title="🚫 NOTHING MINED HERE"
+        message="This collection does not exist in this browser. Collections are stored locally, import the JSON to open a shared one."
+      />
+    )
+  }
+
+  const { items } = collection
+  const categories = countCategories(items.map((item) => item.mod))
+
+  const endDrag = () => {
+    setDraggableIndex(null)
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) moveCollectionItem(id, dragIndex, index)
+    endDrag()
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+        <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              key={collection.name}
+              defaultValue={collection.name}
+              aria-label="Collection name"
+              onBlur={(event) => {
+                if (event.target.value.trim() && event.target.value !== collection.name) {
+                  renameCollection(id, event.target.value)
+                }
+              }}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") event.currentTarget.blur()
+              }}
+              className="flex-1 min-w-48 text-2xl h-12 bg-gray-50 dark:bg-gray-900 border-gray-300 dark:border-gray-600 text-green-700 dark:text-green-400 font-mono font-bold"
+            />
+            <span className="text-gray-700 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded border border-gray-300 dark:border-gray-600">
+              {items.length} mod{items.length !== 1 ? "s" : ""}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                downloadFile(exportFilename(collection.name, "json"), exportCollection(collection), "application/json")
+              }
+              className="bg-blue-700 hover:bg-blue-600 text-white border-blue-600 font-mono font-bold"
+            >
+              <Download className="w-4 h-4 mr-2" /> EXPORT JSON
+            </Button>
+            <PackExportDialog collection={collection} />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-red-700 dark:text-red-400 hover:text-red-600 dark:hover:text-red-300 hover:bg-gray-100 dark:hover:bg-gray-700 font-mono">
+                  <Trash2 className="w-4 h-4 mr-2" /> DELETE
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+                <AlertDialogHeader>
+                  <AlertDialogTitle className="text-green-700 dark:text-green-400">Delete &quot;{collection.name}&quot;?</AlertDialogTitle>
+                  <AlertDialogDescription className="text-gray-600 dark:text-gray-400">
+                    Export it first if you might want it back. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white">
+                    CANCEL
+                  </AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => {
+                      deleteCollection(id)
+                      router.push("/collections")
+                    }}
+                    className="bg-red-700 hover:bg-red-600 text-white"
+                  >
+                    DELETE
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <h3 className="text-lg font-bold text-green-700 dark:text-green-400 font-mono mb-3">🏷️ CATEGORY BREAKDOWN</h3>
+          {categories.length === 0 ? (
+            <p className="text-gray-500 font-mono">No mods yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {categories.map(({ category, count }) => (
+                <Badge
+                  key={category}
+                  className="bg-green-700 hover:bg-green-600 text-green-100 border border-green-600 font-mono font-semibold px-3 py-1"
+                >
+                  🏷️ {category} × {count}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700">
+        <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+          <CardTitle className="text-green-700 dark:text-green-400 font-mono font-bold text-xl">🧱 LOAD ORDER</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {items.length === 0 ? (
+            <p className="text-gray-500 font-mono">
+              Add mods from the{" "}
+              <Link href="/" className="text-green-700 dark:text-green-400 hover:underline">
+                search results
+              </Link>{" "}
+              with the 📁 button.
+            </p>
+          ) : (
+            <ol className="space-y-3">
+              {items.map((item, index) => (
+                <li
+                  key={item.mod.id}
+                  draggable={draggableIndex === index}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move"
+                    setDragIndex(index)
+                  }}
+                  onDragOver={(event) => {
+                    if (dragIndex === null) return
+                    event.preventDefault()
+                    setDropIndex(index)
+                  }}
+                  onDrop={(event) => {
+                    event.preventDefault()
+                    handleDrop(index)
+                  }}
+                  onDragEnd={endDrag}
+                  className={cn(
+                    "flex gap-3 bg-gray-50 dark:bg-gray-900 p-3 rounded-lg border border-gray-300 dark:border-gray-600",
+                    dragIndex === index && "opacity-50",
+                    dropIndex === index && dragIndex !== index && "border-green-500",
+                  )}
+                >
+                  <button
+                    type="button"
+                    aria-hidden
+                    tabIndex={-1}
+                    onMouseDown={() => setDraggableIndex(index)}
+                    onMouseUp={() => setDraggableIndex(null)}
+                    className="text-gray-500 hover:text-green-700 dark:hover:text-green-400 cursor-grab active:cursor-grabbing"
+                  >
+                    <GripVertical className="w-5 h-5" />
+                  </button>
+                  <span className="text-gray-500 font-mono w-6 text-right pt-1">{index + 1}</span>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link
+                        href={modHref(item.mod)}
+                        className="font-bold text-green-700 dark:text-green-400 font-mono truncate hover:underline"
+                      >
+                        🧩 {item.mod.title}
+                      </Link>
+                      <span className="text-xs text-gray-600 dark:text-gray-400 font-mono shrink-0">{item.mod.categories.join(" · ")}</span>
+                    </div>
+                    <Textarea
+                      value={item.note}
+                      onChange={(event) => setCollectionNote(id, item.mod.id, event.target.value)}
+                      placeholder="Notes: config tweaks, why it is in the pack..."
+                      aria-label={`Notes for ${item.mod.title}`}
+                      rows={1}
+                      className="min-h-9 bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 placeholder-gray-500 font-mono text-sm"
+                    />
+                  </div>
+                  <div className="flex flex-col">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => moveCollectionItem(id, index, index - 1)}
+                      aria-label={`Move ${item.mod.title} up`}
+                      className={iconButtonClassName}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === items.length - 1}
+                      onClick={() => moveCollectionItem(id, index, index + 1)}
+                      aria-label={`Move ${item.mod.title} down`}
+                      className={iconButtonClassName}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeFromCollection(id, item.mod.id)}
+                    aria-label={`Remove ${item.mod.title} from the collection`}
+                    title="Remove"
+                    className={cn(iconButtonClassName, "hover:text-red-700 dark:hover:text-red-400")}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ListPlus, Plus, Upload } from "lucide-react"
+
+import { EmptyState } from "@/components/search/empty-state"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useLocalStore } from "@/hooks/use-local-store"
+import { collectionsStore, createCollection, importCollection } from "@/lib/collections"
+import { countCategories } from "@/lib/facets"
+
+const TOP_CATEGORY_COUNT = 3
+
+export function CollectionsList() {
+  const router = useRouter()
+  const collections = useLocalStore(collectionsStore)
+  const [newName, setNewName] = useState("")
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!newName.trim()) return
+    const id = createCollection(newName)
+    setNewName("")
+    router.push(`/collections/${id}`)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    const result = importCollection(await file.text())
+    if (result.ok) {
+      setImportError(null)
+      router.push(`/collections/${result.id}`)
+    } else {
+      setImportError(result.message)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+        <form onSubmit={handleCreate} className="flex flex-1 min-w-64 gap-3">
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="Name a new collection..."
+            aria-label="New collection name"
+            className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 font-mono"
+          />
+          <Button
+            type="submit"
+            disabled={!newName.trim()}
+            className="bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+          >
+            <Plus className="w-4 h-4 mr-2" /> CREATE
+          </Button>
+        </form>
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+        >
+          <Upload className="w-4 h-4 mr-2" /> IMPORT JSON
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+        <Button
+          asChild
+          variant="outline"
+          className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+        >
+          <Link href="/collections/import">
+            <ListPlus className="w-4 h-4 mr-2" /> IMPORT MOD LIST
+          </Link>
+        </Button>
+      </div>
+
+      {importError && <p className="text-red-700 dark:text-red-400 font-mono text-sm">{importError}</p>}
+
+      {collections.length === 0 ? (
+        <EmptyState
+          title="📦 NO COLLECTIONS YET"
+          message="Create one here, or add mods to a new collection straight from the search results."
+        />
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {collections.map((collection) => (
+            <Link
+              key={collection.id}
+              href={`/collections/${collection.id}`}
+              className="block bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 hover:border-green-500 transition-colors"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-bold text-green-700 dark:text-green-400 font-mono truncate">📦 {collection.name}</h3>
+                <span className="text-xs font-mono text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                  {collection.items.length} mod{collection.items.length !== 1 ? "s" : ""}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {countCategories(collection.items.map((item) => item.mod))
+                  .slice(0, TOP_CATEGORY_COUNT)
+                  .map(({ category, count }) => (
+                    <Badge key={category} className="bg-green-800 text-green-100 border border-green-700 font-mono">
+                      {category} × {count}
+                    </Badge>
+                  ))}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
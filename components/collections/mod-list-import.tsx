@@ -0,0 +1,258 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ListChecks, Save, Search, Upload } from "lucide-react"
+
+import { ConfidenceBadge } from "@/components/mods/confidence-badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { apiClient, type ModResult } from "@/lib/api"
+import { createCollection } from "@/lib/collections"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { findMatchCandidates, HIGH_CONFIDENCE, parseModList, type MatchCandidate } from "@/lib/mod-list-import"
+import { modHref } from "@/lib/mods"
+
+const RESOLVE_CONCURRENCY = 4
+const SKIP = "skip"
+
+const selectTriggerClassName = "w-64 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono focus:ring-green-500"
+const selectContentClassName = "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono"
+const selectItemClassName = "focus:bg-gray-100 dark:focus:bg-gray-700 focus:text-green-700 dark:focus:text-green-400"
+
+interface ImportEntry {
+  name: string
+  status: "searching" | "done" | "failed"
+  candidates: MatchCandidate[]
+  selectedId: number | null
+  confirmed: boolean
+}
+
+export function ModListImport() {
+  const router = useRouter()
+  const [text, setText] = useState("")
+  const [collectionName, setCollectionName] = useState("Imported mods")
+  const [entries, setEntries] = useState<ImportEntry[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortController = useRef<AbortController | null>(null)
+
+  // Leaving the page stops the searches still queued
+  useEffect(() => () => abortController.current?.abort(), [])
+
+  const names = parseModList(text)
+  const isResolving = entries.some((entry) => entry.status === "searching")
+  const selectedMods = entries
+    .filter((entry) => entry.confirmed && entry.selectedId !== null)
+    .map((entry) => entry.candidates.find((candidate) => candidate.mod.id === entry.selectedId)?.mod)
+    .filter((mod): mod is ModResult => mod !== undefined)
+
+  const updateEntry = (index: number, update: Partial<ImportEntry>) => {
+    setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...update } : entry)))
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (file) setText(await file.text())
+  }
+
+  const handleResolve = () => {
+    abortController.current?.abort()
+    const controller = new AbortController()
+    abortController.current = controller
+
+    setEntries(names.map((name) => ({ name, status: "searching", candidates: [], selectedId: null, confirmed: false })))
+    // Rows fill in as their searches finish rather than all at the end
+    mapWithConcurrency(names, RESOLVE_CONCURRENCY, async (name, index) => {
+      const result = await findMatchCandidates(apiClient, name, { signal: controller.signal })
+      if (controller.signal.aborted) return
+      if (result.ok) {
+        const top = result.data[0]
+        updateEntry(index, {
+          status: "done",
+          candidates: result.data,
+          selectedId: top ? top.mod.id : null,
+          // Only close matches are taken without a second look
+          confirmed: top !== undefined && top.confidence >= HIGH_CONFIDENCE,
+        })
+      } else {
+        console.error("Error resolving mod name:", result.error)
+        updateEntry(index, { status: "failed" })
+      }
+    })
+  }
+
+  const handleSelect = (index: number, value: string) => {
+    updateEntry(index, { selectedId: value === SKIP ? null : Number(value), confirmed: value !== SKIP })
+  }
+
+  const confirmAll = () => {
+    setEntries((prev) => prev.map((entry) => (entry.selectedId !== null ? { ...entry, confirmed: true } : entry)))
+  }
+
+  const handleSave = () => {
+    // Two lines can resolve to the same mod
+    const seen: Record<number, true> = {}
+    const items = selectedMods
+      .filter((mod) => {
+        if (seen[mod.id]) return false
+        seen[mod.id] = true
+        return true
+      })
+      .map((mod) => ({ mod, note: "" }))
+    const id = createCollection(collectionName.trim() || "Imported mods", items)
+    router.push(`/collections/${id}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+        <p className="text-sm text-gray-700 dark:text-gray-300 font-mono">
+          Paste one mod per line, a <code className="text-green-700 dark:text-green-400">mods</code> folder listing (
+          <code className="text-green-700 dark:text-green-400">jei-1.20.1-forge-15.2.0.27.jar</code>) or a CSV with a name column.
+        </p>
+        <Textarea
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={"Just Enough Items\ncreate-1.20.1-0.5.1.f.jar\nSodium"}
+          aria-label="Mod list"
+          rows={8}
+          className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 font-mono"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+          >
+            <Upload className="w-4 h-4 mr-2" /> LOAD FILE
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleFile} hidden />
+          <span className="text-sm text-gray-600 dark:text-gray-400 font-mono">
+            {names.length} mod{names.length !== 1 ? "s" : ""} found
+          </span>
+          <Button
+            onClick={handleResolve}
+            disabled={names.length === 0 || isResolving}
+            className="ml-auto bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            {isResolving ? "⏳ MATCHING..." : "FIND MATCHES"}
+          </Button>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-4 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-bold text-green-700 dark:text-green-400 font-mono">🔎 MATCHES</h3>
+            <span className="text-sm text-gray-600 dark:text-gray-400 font-mono">
+              {entries.filter((entry) => entry.status !== "searching").length} / {entries.length} searched ·{" "}
+              {selectedMods.length} confirmed
+            </span>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-300 dark:border-gray-700 hover:bg-transparent">
+                <TableHead className="text-gray-600 dark:text-gray-400 font-mono">IN YOUR LIST</TableHead>
+                <TableHead className="text-gray-600 dark:text-gray-400 font-mono">MATCH</TableHead>
+                <TableHead className="text-gray-600 dark:text-gray-400 font-mono">CONFIDENCE</TableHead>
+                <TableHead className="text-gray-600 dark:text-gray-400 font-mono">OK</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => {
+                const selected = entry.candidates.find((candidate) => candidate.mod.id === entry.selectedId)
+                return (
+                  <TableRow key={index} className="border-gray-300 dark:border-gray-700 hover:bg-gray-100/40 dark:hover:bg-gray-700/40">
+                    <TableCell className="text-gray-800 dark:text-gray-200 font-mono">{entry.name}</TableCell>
+                    <TableCell>
+                      {entry.status === "searching" ? (
+                        <span className="text-gray-600 dark:text-gray-400 font-mono">⏳ searching...</span>
+                      ) : entry.status === "failed" ? (
+                        <span className="text-red-700 dark:text-red-400 font-mono">⚠️ search failed</span>
+                      ) : entry.candidates.length === 0 ? (
+                        <span className="text-gray-600 dark:text-gray-400 font-mono">🚫 no matches</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={entry.selectedId !== null ? String(entry.selectedId) : SKIP}
+                            onValueChange={(value) => handleSelect(index, value)}
+                          >
+                            <SelectTrigger aria-label={`Match for ${entry.name}`} className={selectTriggerClassName}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className={selectContentClassName}>
+                              {entry.candidates.map(({ mod, confidence }) => (
+                                <SelectItem key={mod.id} value={String(mod.id)} className={selectItemClassName}>
+                                  🧩 {mod.title} ({Math.round(confidence * 100)}%)
+                                </SelectItem>
+                              ))}
+                              <SelectItem value={SKIP} className={selectItemClassName}>
+                                ⏭️ SKIP THIS ONE
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {selected && (
+                            <Link
+                              href={modHref(selected.mod)}
+                              target="_blank"
+                              className="text-xs text-blue-700 dark:text-blue-400 font-mono hover:underline"
+                            >
+                              VIEW
+                            </Link>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{selected && <ConfidenceBadge confidence={selected.confidence} />}</TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={entry.confirmed}
+                        disabled={entry.selectedId === null}
+                        onCheckedChange={(checked) => updateEntry(index, { confirmed: checked === true })}
+                        aria-label={`Confirm match for ${entry.name}`}
+                        className="border-gray-400 dark:border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-500"
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-center gap-3 border-t border-gray-300 dark:border-gray-700 pt-4">
+            <Button
+              variant="outline"
+              onClick={confirmAll}
+              disabled={isResolving}
+              className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+            >
+              <ListChecks className="w-4 h-4 mr-2" /> CONFIRM ALL MATCHES
+            </Button>
+            <Input
+              value={collectionName}
+              onChange={(event) => setCollectionName(event.target.value)}
+              aria-label="Collection name"
+              className="flex-1 min-w-48 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 font-mono"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={isResolving || selectedMods.length === 0}
+              className="bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+            >
+              <Save className="w-4 h-4 mr-2" /> SAVE AS COLLECTION
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
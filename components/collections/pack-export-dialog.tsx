@@ -0,0 +1,237 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { AlertTriangle, Package } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Collection } from "@/lib/collections"
+import { downloadFile, exportFilename } from "@/lib/export"
+import {
+  checkCompatibility,
+  findPackExporter,
+  MINECRAFT_VERSION_PATTERN,
+  MOD_LOADER_LABELS,
+  MOD_LOADERS,
+  PACK_EXPORTERS,
+  packTargetStore,
+  type ModLoader,
+  type PackTarget,
+} from "@/lib/modpack"
+
+const inputClassName = "bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 font-mono"
+
+const selectContentClassName = "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono"
+const selectItemClassName = "focus:bg-gray-100 dark:focus:bg-gray-700 focus:text-green-700 dark:focus:text-green-400"
+
+export function PackExportDialog({ collection }: { collection: Collection }) {
+  const [open, setOpen] = useState(false)
+  const [exporter, setExporter] = useState(PACK_EXPORTERS[0])
+  const [target, setTarget] = useState<PackTarget>(packTargetStore.fallback)
+  const [isBuilding, setIsBuilding] = useState(false)
+  const [buildError, setBuildError] = useState<string | null>(null)
+
+  // Starts from the last exported target each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTarget(packTargetStore.read())
+      setBuildError(null)
+    }
+  }, [open])
+
+  const validVersion = MINECRAFT_VERSION_PATTERN.test(target.minecraftVersion.trim())
+  const canExport = validVersion && (!exporter.requiresLoaderVersion || target.loaderVersion.trim() !== "")
+  const conflicts = collection.items.filter(({ mod }) => checkCompatibility(mod, target.loader) === "conflict")
+  const unknown = collection.items.filter(({ mod }) => checkCompatibility(mod, target.loader) === "unknown")
+
+  const finalTarget: PackTarget = {
+    ...target,
+    minecraftVersion: target.minecraftVersion.trim(),
+    loaderVersion: target.loaderVersion.trim(),
+  }
+  const missing = exporter.missingInfo(collection, finalTarget)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!canExport) return
+    setIsBuilding(true)
+    setBuildError(null)
+    packTargetStore.write(() => finalTarget)
+    try {
+      const pack = await exporter.build(collection, finalTarget)
+      downloadFile(exportFilename(collection.name, exporter.extension), pack, pack.type)
+      setOpen(false)
+    } catch (error) {
+      console.error("Error building modpack:", error)
+      setBuildError("The modpack could not be packed, try again.")
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={collection.items.length === 0}
+          className="bg-orange-700 hover:bg-orange-600 text-white border-orange-600 font-mono font-bold"
+        >
+          <Package className="w-4 h-4 mr-2" /> EXPORT MODPACK
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="text-green-700 dark:text-green-400">📦 Export as modpack</DialogTitle>
+            <DialogDescription className="text-gray-600 dark:text-gray-400">{exporter.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="pack-format">Format</Label>
+            <Select
+              value={exporter.id}
+              onValueChange={(id) => setExporter(findPackExporter(id) ?? PACK_EXPORTERS[0])}
+            >
+              <SelectTrigger id="pack-format" className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className={selectContentClassName}>
+                {PACK_EXPORTERS.map((option) => (
+                  <SelectItem key={option.id} value={option.id} className={selectItemClassName}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pack-minecraft-version">Minecraft version</Label>
+            <Input
+              id="pack-minecraft-version"
+              value={target.minecraftVersion}
+              onChange={(event) => setTarget({ ...target, minecraftVersion: event.target.value })}
+              placeholder="1.20.1"
+              required
+              aria-invalid={target.minecraftVersion !== "" && !validVersion}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="pack-loader">Mod loader</Label>
+              <Select
+                value={target.loader}
+                onValueChange={(loader) => setTarget({ ...target, loader: loader as ModLoader })}
+              >
+                <SelectTrigger id="pack-loader" className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={selectContentClassName}>
+                  {MOD_LOADERS.map((loader) => (
+                    <SelectItem key={loader} value={loader} className={selectItemClassName}>
+                      {MOD_LOADER_LABELS[loader]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pack-loader-version">
+                Loader version{exporter.requiresLoaderVersion ? "" : " (optional)"}
+              </Label>
+              <Input
+                id="pack-loader-version"
+                value={target.loaderVersion}
+                onChange={(event) => setTarget({ ...target, loaderVersion: event.target.value })}
+                placeholder="47.2.0"
+                required={exporter.requiresLoaderVersion}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 text-sm bg-gray-50 dark:bg-gray-900 p-3 rounded border border-yellow-600">
+            <p className="flex items-start text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+              The search index has no file data, so no mod can be checked against Minecraft{" "}
+              {target.minecraftVersion || "versions"}.
+            </p>
+            {missing.map((info) => (
+              <div key={info.field}>
+                <p className="text-gray-800 dark:text-gray-200">
+                  Missing: {info.field}. <span className="text-gray-600 dark:text-gray-400">{info.consequence}</span>
+                </p>
+                {info.mods.length > 0 && (
+                  <details>
+                    <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
+                      {info.mods.length} mod{info.mods.length !== 1 ? "s" : ""} affected
+                    </summary>
+                    <ul className="list-disc pl-6 text-gray-600 dark:text-gray-400">
+                      {info.mods.map((mod) => (
+                        <li key={mod.id}>
+                          {mod.title} <span className="text-gray-500">(project {mod.id})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            ))}
+            {conflicts.length > 0 && (
+              <div>
+                <p className="text-red-700 dark:text-red-400">
+                  {conflicts.length} mod{conflicts.length !== 1 ? "s" : ""} only mention other loaders than{" "}
+                  {MOD_LOADER_LABELS[target.loader]}:
+                </p>
+                <ul className="list-disc pl-6 text-gray-700 dark:text-gray-300">
+                  {conflicts.map(({ mod }) => (
+                    <li key={mod.id}>{mod.title}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {unknown.length > 0 && (
+              <details>
+                <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+                  {unknown.length} mod{unknown.length !== 1 ? "s" : ""} do not mention any loader, compatibility unknown
+                </summary>
+                <ul className="list-disc pl-6 text-gray-600 dark:text-gray-400">
+                  {unknown.map(({ mod }) => (
+                    <li key={mod.id}>{mod.title}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+
+          {buildError && <p className="text-red-700 dark:text-red-400 text-sm">{buildError}</p>}
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={!canExport || isBuilding}
+              className="bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+            >
+              {isBuilding ? "⏳ PACKING..." : `⬇️ DOWNLOAD .${exporter.extension.toUpperCase()}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
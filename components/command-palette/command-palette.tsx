@@ -0,0 +1,255 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { useTheme } from "next-themes"
+import { ArrowLeft, FileArchive, FolderOpen, History, ListPlus, Moon, Search, Sparkles, Star, Sun, Tags } from "lucide-react"
+
+import { usePaletteCommandList, type PaletteCommand } from "@/components/command-palette/palette-commands"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { DialogTitle } from "@/components/ui/dialog"
+import { useLocalStore } from "@/hooks/use-local-store"
+import { apiClient } from "@/lib/api"
+import { favoritesStore } from "@/lib/favorites"
+import { modHref } from "@/lib/mods"
+import { historySearchHref, orderHistory, searchHistoryStore } from "@/lib/search-history"
+import {
+  DEFAULT_SEARCH_STATE,
+  parseSearchState,
+  replaceAutocompleteMode,
+  serializeSearchState,
+} from "@/lib/search-params"
+
+const SUGGESTION_DEBOUNCE_MS = 200
+const SUGGESTION_COUNT = 5
+const RECENT_SEARCH_COUNT = 5
+
+// Pages with the search box, where the autocomplete mode means something
+const SEARCH_PATHS = ["/", "/search"]
+
+const itemClassName = "font-mono cursor-pointer"
+
+// Ctrl/Cmd+K from anywhere: search with live suggestions, plus the global and page commands
+export function CommandPalette() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const urlState = useMemo(() => parseSearchState(searchParams), [searchParams])
+  const { resolvedTheme, setTheme } = useTheme()
+  const pageCommands = usePaletteCommandList()
+  const history = useLocalStore(searchHistoryStore)
+  const favorites = useLocalStore(favoritesStore)
+
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  // Command whose items are listed instead of the top level
+  const [page, setPage] = useState<PaletteCommand | null>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((wasOpen) => !wasOpen)
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Debounced, and each keystroke cancels the request for the previous one
+  useEffect(() => {
+    setSuggestions([])
+    if (!open || page || !query.trim()) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      const result = await apiClient.autocomplete(
+        urlState.mode,
+        { q: query, size: SUGGESTION_COUNT },
+        { signal: controller.signal },
+      )
+      if (result.ok) {
+        setSuggestions(result.data.suggestions)
+      } else if (result.error.kind !== "aborted") {
+        console.error("Error fetching suggestions:", result.error)
+      }
+    }, SUGGESTION_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, page, query, urlState.mode])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) {
+      setQuery("")
+      setPage(null)
+    }
+  }
+
+  const runCommand = (command: PaletteCommand) => {
+    if (command.items) {
+      setPage(command)
+      setQuery("")
+      return
+    }
+    handleOpenChange(false)
+    command.run?.()
+  }
+
+  // Keeps the filters of the current search, elsewhere only the autocomplete mode carries over
+  const search = (term: string) => {
+    const base = pathname === "/search" ? urlState : { ...DEFAULT_SEARCH_STATE, mode: urlState.mode }
+    handleOpenChange(false)
+    router.push(`/search?${serializeSearchState({ ...base, q: term, page: 1 })}`)
+  }
+
+  // Backspace in an empty input goes back up from a command's items
+  const handleInputKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Backspace" && !query && page) {
+      event.preventDefault()
+      setPage(null)
+    }
+  }
+
+  const isDark = resolvedTheme !== "light"
+  const actions: PaletteCommand[] = [
+    {
+      id: "switch-theme",
+      label: `Switch to ${isDark ? "light" : "dark"} theme`,
+      icon: isDark ? Sun : Moon,
+      keywords: ["theme", "dark", "light"],
+      run: () => setTheme(isDark ? "light" : "dark"),
+    },
+  ]
+  if (SEARCH_PATHS.indexOf(pathname) !== -1) {
+    actions.unshift({
+      id: "toggle-autocomplete",
+      label: `Toggle advanced autocomplete (now ${urlState.mode === "sayt" ? "advanced" : "fast"})`,
+      icon: Sparkles,
+      keywords: ["sayt", "suggester", "mode"],
+      run: () => replaceAutocompleteMode(urlState, urlState.mode === "sayt" ? "suggester" : "sayt"),
+    })
+  }
+  const navigation: PaletteCommand[] = [
+    { id: "go-categories", label: "Browse categories", icon: Tags, run: () => router.push("/categories") },
+    { id: "go-history", label: "Search history", icon: History, run: () => router.push("/history") },
+    { id: "go-favorites", label: "Favorites", icon: Star, run: () => router.push("/favorites") },
+    { id: "go-collections", label: "Collections", icon: FolderOpen, run: () => router.push("/collections") },
+    {
+      id: "go-import-mod-list",
+      label: "Import a mod list",
+      icon: ListPlus,
+      keywords: ["csv", "jar", "bulk"],
+      run: () => router.push("/collections/import"),
+    },
+    {
+      id: "go-identify",
+      label: "Identify installed mods",
+      icon: FileArchive,
+      keywords: ["jar", "mods folder", "audit"],
+      run: () => router.push("/identify"),
+    },
+  ]
+  const recentSearches: PaletteCommand[] = orderHistory(history)
+    .slice(0, RECENT_SEARCH_COUNT)
+    .map((entry) => ({
+      id: `recent-${entry.term}`,
+      label: `${entry.pinned ? "📌" : "🕘"} ${entry.term}`,
+      run: () => router.push(historySearchHref(entry)),
+    }))
+  const favoriteMods: PaletteCommand[] = favorites.map(({ mod }) => ({
+    id: `favorite-${mod.id}`,
+    label: `⭐ ${mod.title}`,
+    keywords: mod.authors,
+    run: () => router.push(modHref(mod)),
+  }))
+
+  const renderCommand = (command: PaletteCommand) => {
+    const Icon = command.icon
+    return (
+      <CommandItem
+        key={command.id}
+        value={`${command.id} ${command.label}`}
+        keywords={command.keywords}
+        onSelect={() => runCommand(command)}
+        className={itemClassName}
+      >
+        {Icon && <Icon className="mr-2" />}
+        {command.label}
+        {command.items && <CommandShortcut>{command.items.length}</CommandShortcut>}
+      </CommandItem>
+    )
+  }
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput
+        placeholder={page ? `${page.label}...` : "Search mods or type a command..."}
+        value={query}
+        onValueChange={setQuery}
+        onKeyDown={handleInputKeyDown}
+        className="font-mono"
+      />
+      <CommandList>
+        <CommandEmpty className="py-6 text-center text-sm font-mono">Nothing mined for that.</CommandEmpty>
+        {page ? (
+          <CommandGroup heading={page.label}>
+            <CommandItem value="back" onSelect={() => setPage(null)} className={itemClassName}>
+              <ArrowLeft className="mr-2" />
+              Back
+            </CommandItem>
+            {(page.items ?? []).map(renderCommand)}
+          </CommandGroup>
+        ) : (
+          <>
+            {query.trim() && (
+              <CommandGroup heading="Search">
+                {/* The query as keyword keeps these from being filtered out by the palette itself */}
+                <CommandItem
+                  value={`search ${query}`}
+                  keywords={[query]}
+                  onSelect={() => search(query)}
+                  className={itemClassName}
+                >
+                  <Search className="mr-2" />
+                  Search for &quot;{query}&quot;
+                </CommandItem>
+                {suggestions.map((suggestion) => (
+                  <CommandItem
+                    key={suggestion}
+                    value={`suggestion ${suggestion}`}
+                    keywords={[query]}
+                    onSelect={() => search(suggestion)}
+                    className={itemClassName}
+                  >
+                    🔸 {suggestion}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {recentSearches.length > 0 && (
+              <CommandGroup heading="Recent searches">{recentSearches.map(renderCommand)}</CommandGroup>
+            )}
+            {favoriteMods.length > 0 && <CommandGroup heading="Favorites">{favoriteMods.map(renderCommand)}</CommandGroup>}
+            {pageCommands.length > 0 && <CommandGroup heading="This page">{pageCommands.map(renderCommand)}</CommandGroup>}
+            <CommandGroup heading="Actions">{actions.map(renderCommand)}</CommandGroup>
+            <CommandGroup heading="Go to">{navigation.map(renderCommand)}</CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
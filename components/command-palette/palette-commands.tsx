@@ -0,0 +1,64 @@
+"use client"
+
+import type React from "react"
+import { createContext, useCallback, useContext, useEffect, useId, useMemo, useState } from "react"
+import type { LucideIcon } from "lucide-react"
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  icon?: LucideIcon
+  // Extra words the palette filter matches on
+  keywords?: string[]
+  // Choosing the command lists these instead, e.g. the results to open a summary for
+  items?: PaletteCommand[]
+  run?: () => void
+}
+
+type RegisterCommands = (owner: string, commands: PaletteCommand[] | null) => void
+
+// Separate contexts so registering pages do not re-render whenever the command list changes
+const PaletteCommandsContext = createContext<PaletteCommand[]>([])
+const RegisterCommandsContext = createContext<RegisterCommands | null>(null)
+
+// Holds the commands the mounted pages offer on top of the palette's global ones
+export function PaletteCommandsProvider({ children }: { children: React.ReactNode }) {
+  const [byOwner, setByOwner] = useState<Record<string, PaletteCommand[]>>({})
+
+  const register = useCallback<RegisterCommands>((owner, commands) => {
+    setByOwner((previous) => {
+      const next = { ...previous }
+      if (commands) next[owner] = commands
+      else delete next[owner]
+      return next
+    })
+  }, [])
+
+  const commands = useMemo(
+    () => Object.keys(byOwner).reduce<PaletteCommand[]>((all, owner) => all.concat(byOwner[owner]), []),
+    [byOwner],
+  )
+
+  return (
+    <RegisterCommandsContext.Provider value={register}>
+      <PaletteCommandsContext.Provider value={commands}>{children}</PaletteCommandsContext.Provider>
+    </RegisterCommandsContext.Provider>
+  )
+}
+
+export function usePaletteCommandList(): PaletteCommand[] {
+  return useContext(PaletteCommandsContext)
+}
+
+// Offers `commands` in the palette while the calling component is mounted. Memoize them, every
+// new array is registered again.
+export function usePaletteCommands(commands: PaletteCommand[]) {
+  const owner = useId()
+  const register = useContext(RegisterCommandsContext)
+
+  useEffect(() => {
+    if (!register) return
+    register(owner, commands)
+    return () => register(owner, null)
+  }, [register, owner, commands])
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { X } from "lucide-react"
+
+import type { ModResult } from "@/lib/api"
+import { compareHref, removeCompared } from "@/lib/compare"
+
+// Drops the mod from the tray as well as the page, or the tray would bring it straight back
+export function CompareRemoveButton({ mod, ids }: { mod: ModResult; ids: number[] }) {
+  const router = useRouter()
+
+  const handleRemove = () => {
+    removeCompared(mod.id)
+    router.push(compareHref(ids.filter((id) => id !== mod.id)))
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleRemove}
+      aria-label={`Remove ${mod.title} from the comparison`}
+      className="text-gray-600 dark:text-gray-400 hover:text-red-700 dark:hover:text-red-400 shrink-0"
+    >
+      <X className="w-4 h-4" />
+    </button>
+  )
+}
@@ -0,0 +1,133 @@
+import type React from "react"
+import Link from "next/link"
+
+import { AuthorLinks } from "@/components/authors/author-link"
+import { CompareRemoveButton } from "@/components/compare/compare-remove-button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { ModResult } from "@/lib/api"
+import { sharedCategories, valuesDiffer } from "@/lib/compare"
+import { modHref } from "@/lib/mods"
+import { cn } from "@/lib/utils"
+
+const differsClassName = "bg-yellow-500/10"
+
+interface CompareRowProps {
+  label: string
+  // Marks the whole row as one where the mods disagree
+  differs: boolean
+  mods: ModResult[]
+  render: (mod: ModResult) => React.ReactNode
+}
+
+function CompareRow({ label, differs, mods, render }: CompareRowProps) {
+  return (
+    <TableRow className="border-gray-300 dark:border-gray-700 hover:bg-transparent align-top">
+      <TableHead
+        scope="row"
+        className={cn("w-36 text-gray-600 dark:text-gray-400 font-mono font-bold align-top pt-4", differs && "text-yellow-700 dark:text-yellow-400")}
+      >
+        {label}
+        {differs && <span className="sr-only"> (differs)</span>}
+        {differs && (
+          <span aria-hidden className="ml-1">
+            ≠
+          </span>
+        )}
+      </TableHead>
+      {mods.map((mod) => (
+        <TableCell
+          key={mod.id}
+          className={cn("text-gray-700 dark:text-gray-300 font-mono align-top", differs && differsClassName)}
+        >
+          {render(mod)}
+        </TableCell>
+      ))}
+    </TableRow>
+  )
+}
+
+interface CompareTableProps {
+  mods: ModResult[]
+  // AI summary per mod id
+  summaries: Record<number, React.ReactNode>
+}
+
+export function CompareTable({ mods, summaries }: CompareTableProps) {
+  const ids = mods.map((mod) => mod.id)
+  const shared = sharedCategories(mods)
+  const bestRank = Math.min(...mods.map((mod) => mod.popularityRank))
+
+  return (
+    <Table className="table-fixed bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700 rounded-lg">
+      <TableHeader>
+        <TableRow className="border-gray-300 dark:border-gray-700 hover:bg-transparent">
+          <TableHead className="w-36" />
+          {mods.map((mod) => (
+            <TableHead key={mod.id} className="py-3 align-top">
+              <div className="flex items-start justify-between gap-2">
+                <Link href={modHref(mod)} className="text-green-700 dark:text-green-400 font-mono font-bold hover:underline">
+                  🧩 {mod.title}
+                </Link>
+                <CompareRemoveButton mod={mod} ids={ids} />
+              </div>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <CompareRow
+          label="AUTHORS"
+          differs={valuesDiffer(mods.map((mod) => mod.authors.slice().sort().join(",")))}
+          mods={mods}
+          render={(mod) => <AuthorLinks authors={mod.authors} />}
+        />
+        <CompareRow
+          label="CATEGORIES"
+          differs={valuesDiffer(mods.map((mod) => mod.categories.slice().sort().join(",")))}
+          mods={mods}
+          render={(mod) => (
+            <div className="flex flex-wrap gap-1">
+              {mod.categories.map((category) => (
+                <Badge
+                  key={category}
+                  className={cn(
+                    "font-mono border",
+                    shared.indexOf(category) !== -1
+                      ? "bg-green-800 text-green-100 border-green-700"
+                      : "bg-yellow-700 text-yellow-100 border-yellow-600",
+                  )}
+                >
+                  {category}
+                </Badge>
+              ))}
+            </div>
+          )}
+        />
+        <CompareRow
+          label="POPULARITY"
+          differs={valuesDiffer(mods.map((mod) => String(mod.popularityRank)))}
+          mods={mods}
+          render={(mod) => (
+            <span className={cn(mod.popularityRank === bestRank && mods.length > 1 && "text-green-700 dark:text-green-400 font-bold")}>
+              #{mod.popularityRank.toLocaleString()}
+              {mod.popularityRank === bestRank && " 🏆"}
+            </span>
+          )}
+        />
+        <CompareRow
+          label="DESCRIPTION"
+          differs={false}
+          mods={mods}
+          render={(mod) => <p className="text-sm leading-relaxed">{mod.description}</p>}
+        />
+        <CompareRow
+          label="AI SUMMARY"
+          differs={false}
+          mods={mods}
+          render={(mod) => summaries[mod.id]}
+        />
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { useLocalStore } from "@/hooks/use-local-store"
+import type { ModResult } from "@/lib/api"
+import { compareStore, isCompared, MAX_COMPARED_MODS, toggleCompared } from "@/lib/compare"
+
+export function CompareToggle({ mod }: { mod: ModResult }) {
+  const compared = useLocalStore(compareStore)
+  const checked = isCompared(compared, mod.id)
+  const full = !checked && compared.length >= MAX_COMPARED_MODS
+  const id = `compare-${mod.id}`
+
+  return (
+    <div
+      className="flex items-center space-x-2 bg-gray-100 dark:bg-gray-700 px-2 rounded border border-gray-300 dark:border-gray-600"
+      title={full ? `Up to ${MAX_COMPARED_MODS} mods can be compared at once` : undefined}
+    >
+      <Checkbox
+        id={id}
+        checked={checked}
+        disabled={full}
+        onCheckedChange={() => toggleCompared(mod)}
+        className="border-gray-400 dark:border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-500"
+      />
+      <Label htmlFor={id} className="text-xs text-gray-800 dark:text-gray-200 font-mono font-bold cursor-pointer">
+        COMPARE
+      </Label>
+    </div>
+  )
+}
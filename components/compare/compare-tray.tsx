@@ -0,0 +1,59 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { Scale, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useLocalStore } from "@/hooks/use-local-store"
+import { clearCompared, compareHref, compareStore, MIN_COMPARED_MODS, toggleCompared } from "@/lib/compare"
+
+// Floats over every page while mods are picked for comparison
+export function CompareTray() {
+  const pathname = usePathname()
+  const compared = useLocalStore(compareStore)
+  if (compared.length === 0 || pathname === "/compare") return null
+
+  const ready = compared.length >= MIN_COMPARED_MODS
+
+  return (
+    <aside
+      aria-label="Mods to compare"
+      className="fixed bottom-4 right-4 z-40 w-80 bg-white dark:bg-gray-800 border-2 border-green-600 rounded-lg shadow-2xl shadow-green-500/20 p-4 space-y-3 font-mono"
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="text-green-700 dark:text-green-400 font-bold flex items-center">
+          <Scale className="w-4 h-4 mr-2" /> COMPARE ({compared.length})
+        </h3>
+        <button type="button" onClick={clearCompared} className="text-xs text-gray-600 dark:text-gray-400 hover:text-red-700 dark:hover:text-red-400">
+          CLEAR
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {compared.map((mod) => (
+          <li key={mod.id} className="flex items-center justify-between text-sm text-gray-800 dark:text-gray-200">
+            <span className="truncate">🧩 {mod.title}</span>
+            <button
+              type="button"
+              onClick={() => toggleCompared(mod)}
+              aria-label={`Stop comparing ${mod.title}`}
+              className="text-gray-600 dark:text-gray-400 hover:text-red-700 dark:hover:text-red-400"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {ready ? (
+        <Button
+          asChild
+          className="w-full bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+        >
+          <Link href={compareHref(compared.map((mod) => mod.id))}>COMPARE NOW</Link>
+        </Button>
+      ) : (
+        <p className="text-xs text-gray-600 dark:text-gray-400">Tick one more mod to compare.</p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import type React from "react"
+
+import { CompareTable } from "@/components/compare/compare-table"
+import { EmptyState } from "@/components/search/empty-state"
+import { useHasHydrated, useLocalStore } from "@/hooks/use-local-store"
+import type { ModResult } from "@/lib/api"
+import { compareStore, MAX_COMPARED_MODS, MIN_COMPARED_MODS } from "@/lib/compare"
+
+interface ComparedModsProps {
+  // From the URL, in column order
+  ids: number[]
+  // AI summary per mod id, rendered on the server
+  summaries: Record<number, React.ReactNode>
+}
+
+// The mods are the ones ticked in the compare tray, only their summaries come from the backend
+export function ComparedMods({ ids, summaries }: ComparedModsProps) {
+  const hydrated = useHasHydrated()
+  const compared = useLocalStore(compareStore)
+  if (!hydrated) return null
+
+  const mods: ModResult[] = []
+  const missingIds: number[] = []
+  ids.forEach((id) => {
+    const mod = compared.find((candidate) => candidate.id === id)
+    if (mod) mods.push(mod)
+    else missingIds.push(id)
+  })
+
+  return (
+    <>
+      {missingIds.length > 0 && (
+        <p className="text-red-700 dark:text-red-400 font-mono text-sm">
+          ⚠️ Left out, not in your compare tray: mod{missingIds.length !== 1 ? "s" : ""} {missingIds.join(", ")}.
+        </p>
+      )}
+
+      {mods.length < MIN_COMPARED_MODS ? (
+        <EmptyState
+          title="⚖️ NOTHING TO COMPARE"
+          message={`Tick COMPARE on ${MIN_COMPARED_MODS} to ${MAX_COMPARED_MODS} search results to see them side by side.`}
+        />
+      ) : (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300 font-mono">
+            Rows marked <span className="text-yellow-700 dark:text-yellow-400">≠</span> differ between the mods, categories only some
+            of them have are <span className="text-yellow-700 dark:text-yellow-400">yellow</span>.
+          </p>
+          <CompareTable mods={mods} summaries={summaries} />
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { Star } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { useLocalStore } from "@/hooks/use-local-store"
+import type { ModResult } from "@/lib/api"
+import { favoritesStore, isFavorite, toggleFavorite } from "@/lib/favorites"
+import { cn } from "@/lib/utils"
+
+export function FavoriteButton({ mod, className }: { mod: ModResult; className?: string }) {
+  const favorite = isFavorite(useLocalStore(favoritesStore), mod.id)
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={() => toggleFavorite(mod)}
+      aria-pressed={favorite}
+      aria-label={favorite ? `Remove ${mod.title} from favorites` : `Add ${mod.title} to favorites`}
+      title={favorite ? "Remove from favorites" : "Add to favorites"}
+      className={cn(
+        "h-9 w-9 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600",
+        favorite ? "text-yellow-700 dark:text-yellow-400 hover:text-yellow-600 dark:hover:text-yellow-300" : "text-gray-600 dark:text-gray-400 hover:text-yellow-700 dark:hover:text-yellow-400",
+        className,
+      )}
+    >
+      <Star className={cn("w-4 h-4", favorite && "fill-current")} />
+    </Button>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { RefreshCw } from "lucide-react"
+
+import { FavoriteButton } from "@/components/favorites/favorite-button"
+import { ModListItem } from "@/components/mods/mod-list-item"
+import { EmptyState } from "@/components/search/empty-state"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useHasHydrated, useLocalStore } from "@/hooks/use-local-store"
+import { apiClient, refreshMod, type ModResult } from "@/lib/api"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { countCategories } from "@/lib/facets"
+import {
+  FAVORITE_SORTS,
+  favoritesStore,
+  filterFavorites,
+  sortFavorites,
+  updateFavoriteSnapshots,
+  type FavoriteSort,
+} from "@/lib/favorites"
+
+const SORT_LABELS: Record<FavoriteSort, string> = {
+  added: "🕘 RECENTLY ADDED",
+  popularity: "⭐ POPULARITY",
+  title: "🔤 TITLE A–Z",
+  author: "👥 AUTHOR A–Z",
+}
+
+const ALL_CATEGORIES = "all"
+const REFRESH_CONCURRENCY = 4
+
+const selectTriggerClassName = "w-52 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono focus:ring-green-500"
+const selectContentClassName = "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono"
+const selectItemClassName = "focus:bg-gray-100 dark:focus:bg-gray-700 focus:text-green-700 dark:focus:text-green-400"
+
+type RefreshState = "refreshing" | "done" | "failed"
+
+export function FavoritesList() {
+  const hydrated = useHasHydrated()
+  const favorites = useLocalStore(favoritesStore)
+  const [text, setText] = useState("")
+  const [category, setCategory] = useState(ALL_CATEGORIES)
+  const [sort, setSort] = useState<FavoriteSort>("added")
+  const [refreshState, setRefreshState] = useState<RefreshState | null>(null)
+  // Favorites the index no longer has under their last known title
+  const [missingIds, setMissingIds] = useState<number[]>([])
+
+  // Snapshots go stale as ranks and descriptions change, so each visit refreshes them in the background
+  useEffect(() => {
+    const snapshots = favoritesStore.read().map((favorite) => favorite.mod)
+    if (snapshots.length === 0) return
+
+    let cancelled = false
+    setRefreshState("refreshing")
+    mapWithConcurrency(snapshots, REFRESH_CONCURRENCY, (mod) => refreshMod(apiClient, mod)).then((results) => {
+      if (cancelled) return
+      const fresh: ModResult[] = []
+      const missing: number[] = []
+      let failed = false
+      results.forEach((result, index) => {
+        if (!result.ok) failed = true
+        else if (result.data) fresh.push(result.data)
+        else missing.push(snapshots[index].id)
+      })
+      updateFavoriteSnapshots(fresh)
+      setMissingIds(missing)
+      setRefreshState(failed ? "failed" : "done")
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const categoryCounts = useMemo(() => countCategories(favorites.map((favorite) => favorite.mod)), [favorites])
+  const visible = sortFavorites(
+    filterFavorites(favorites, text, category === ALL_CATEGORIES ? null : category),
+    sort,
+  )
+
+  if (!hydrated) return null
+  if (favorites.length === 0) {
+    return (
+      <EmptyState
+        title="⭐ NO FAVORITES YET"
+        message="Star mods in the search results to keep them close at hand."
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+        <Input
+          type="search"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="Filter favorites..."
+          aria-label="Filter favorites"
+          className="flex-1 min-w-48 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 font-mono"
+        />
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger aria-label="Filter by category" className={selectTriggerClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className={selectContentClassName}>
+            <SelectItem value={ALL_CATEGORIES} className={selectItemClassName}>
+              🏷️ ALL CATEGORIES
+            </SelectItem>
+            {categoryCounts.map(({ category: name, count }) => (
+              <SelectItem key={name} value={name} className={selectItemClassName}>
+                {name} ({count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(next) => setSort(next as FavoriteSort)}>
+          <SelectTrigger aria-label="Sort favorites" className={selectTriggerClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className={selectContentClassName}>
+            {FAVORITE_SORTS.map((value) => (
+              <SelectItem key={value} value={value} className={selectItemClassName}>
+                {SORT_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between text-sm font-mono">
+        <span className="text-gray-700 dark:text-gray-300">
+          {visible.length} of {favorites.length} favorite{favorites.length !== 1 ? "s" : ""}
+        </span>
+        {refreshState === "refreshing" && (
+          <span className="flex items-center text-gray-600 dark:text-gray-400">
+            <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> Refreshing from the index...
+          </span>
+        )}
+        {refreshState === "failed" && (
+          <span className="text-yellow-700 dark:text-yellow-400">Some favorites could not be refreshed, showing saved data.</span>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <EmptyState title="🚫 NO MATCHING FAVORITES" message="Try a different filter." />
+      ) : (
+        <ul className="grid gap-4">
+          {visible.map(({ mod }) => (
+            <li key={mod.id} className="flex items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <ModListItem mod={mod} />
+                {missingIds.indexOf(mod.id) !== -1 && (
+                  <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400 font-mono">
+                    Not found in the index any more, showing the saved copy.
+                  </p>
+                )}
+              </div>
+              <FavoriteButton mod={mod} className="mt-4" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
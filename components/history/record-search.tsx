@@ -0,0 +1,21 @@
+"use client"
+
+import { useEffect } from "react"
+
+import type { AutocompleteMode } from "@/lib/api"
+import { recordSearch } from "@/lib/search-history"
+
+interface RecordSearchProps {
+  term: string
+  mode: AutocompleteMode
+  resultCount: number
+}
+
+// Adds a search the server just ran to the history in localStorage
+export function RecordSearch({ term, mode, resultCount }: RecordSearchProps) {
+  useEffect(() => {
+    recordSearch({ term, mode, resultCount })
+  }, [term, mode, resultCount])
+
+  return null
+}
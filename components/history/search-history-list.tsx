@@ -0,0 +1,137 @@
+"use client"
+
+import Link from "next/link"
+import { Pin, PinOff, RotateCcw, Trash2 } from "lucide-react"
+
+import { EmptyState } from "@/components/search/empty-state"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { useHasHydrated, useLocalStore } from "@/hooks/use-local-store"
+import {
+  clearHistory,
+  historySearchHref,
+  orderHistory,
+  removeHistoryEntry,
+  searchHistoryStore,
+  setHistoryPinned,
+} from "@/lib/search-history"
+import { cn } from "@/lib/utils"
+
+const iconButtonClassName = "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 h-8 w-8"
+
+export function SearchHistoryList() {
+  const hydrated = useHasHydrated()
+  const entries = orderHistory(useLocalStore(searchHistoryStore))
+
+  // The server does not know the history, so nothing is shown until the stored one is read
+  if (!hydrated) return null
+  if (entries.length === 0) {
+    return (
+      <EmptyState
+        title="🕘 NO SEARCHES YET"
+        message="Every search you run shows up here, so you can dig it up again later."
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+      <div className="flex items-center justify-between p-4 border-b border-gray-300 dark:border-gray-700">
+        <span className="text-gray-700 dark:text-gray-300 font-mono">
+          {entries.length} search{entries.length !== 1 ? "es" : ""}
+        </span>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-700 dark:text-red-400 hover:text-red-600 dark:hover:text-red-300 hover:bg-gray-100 dark:hover:bg-gray-700 font-mono"
+            >
+              <Trash2 className="w-4 h-4 mr-2" /> CLEAR HISTORY
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-green-700 dark:text-green-400">Clear the whole search history?</AlertDialogTitle>
+              <AlertDialogDescription className="text-gray-600 dark:text-gray-400">
+                Pinned searches are removed too. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white">
+                CANCEL
+              </AlertDialogCancel>
+              <AlertDialogAction onClick={clearHistory} className="bg-red-700 hover:bg-red-600 text-white">
+                CLEAR
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <ul>
+        {entries.map((entry) => (
+          <li
+            key={entry.term}
+            className="flex items-center gap-4 px-4 py-3 border-b border-gray-300 dark:border-gray-700 last:border-b-0"
+          >
+            <div className="flex-1 min-w-0">
+              <Link
+                href={historySearchHref(entry)}
+                className={cn(
+                  "block truncate font-mono font-bold hover:underline",
+                  entry.pinned ? "text-yellow-700 dark:text-yellow-400" : "text-green-700 dark:text-green-400",
+                )}
+              >
+                {entry.pinned ? "📌" : "🔍"} {entry.term}
+              </Link>
+              <div className="flex flex-wrap gap-x-4 text-xs text-gray-600 dark:text-gray-400 font-mono mt-1">
+                <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                <span>{entry.mode === "sayt" ? "🔮 ADVANCED" : "⚡ FAST"}</span>
+                <span>
+                  {entry.resultCount.toLocaleString()} mod{entry.resultCount !== 1 ? "s" : ""} found
+                </span>
+              </div>
+            </div>
+            <Button asChild variant="ghost" size="icon" className={iconButtonClassName}>
+              <Link href={historySearchHref(entry)} aria-label={`Search "${entry.term}" again`} title="Search again">
+                <RotateCcw className="w-4 h-4" />
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setHistoryPinned(entry.term, !entry.pinned)}
+              aria-pressed={entry.pinned}
+              aria-label={`${entry.pinned ? "Unpin" : "Pin"} "${entry.term}"`}
+              title={entry.pinned ? "Unpin" : "Pin"}
+              className={cn(iconButtonClassName, entry.pinned && "text-yellow-700 dark:text-yellow-400")}
+            >
+              {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeHistoryEntry(entry.term)}
+              aria-label={`Delete "${entry.term}" from history`}
+              title="Delete"
+              className={cn(iconButtonClassName, "hover:text-red-700 dark:hover:text-red-400")}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
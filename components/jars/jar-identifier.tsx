@@ -0,0 +1,216 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { FileArchive, FolderOpen } from "lucide-react"
+
+import { ConfidenceBadge } from "@/components/mods/confidence-badge"
+import { ModListItem } from "@/components/mods/mod-list-item"
+import { Button } from "@/components/ui/button"
+import { apiClient } from "@/lib/api"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { droppedJarFiles, isJarFile, readJarMetadata, type JarReadResult } from "@/lib/jars"
+import { MOD_LOADER_LABELS } from "@/lib/modpack"
+import { findMatchCandidates, type MatchCandidate } from "@/lib/mod-list-import"
+import { modHref } from "@/lib/mods"
+import { cn } from "@/lib/utils"
+
+const IDENTIFY_CONCURRENCY = 4
+const ALTERNATE_COUNT = 2
+
+interface IdentifiedJar {
+  fileName: string
+  status: "reading" | "searching" | "done" | "failed"
+  jar?: JarReadResult
+  candidates: MatchCandidate[]
+}
+
+export function JarIdentifier() {
+  const [jars, setJars] = useState<IdentifiedJar[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const abortController = useRef<AbortController | null>(null)
+
+  // React has no prop for picking a whole folder
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  }, [])
+
+  useEffect(() => () => abortController.current?.abort(), [])
+
+  const updateJar = (index: number, update: Partial<IdentifiedJar>) => {
+    setJars((prev) => prev.map((jar, i) => (i === index ? { ...jar, ...update } : jar)))
+  }
+
+  // Jars are read here in the browser, only their mod names go to the search backend
+  const identify = (files: File[]) => {
+    abortController.current?.abort()
+    const controller = new AbortController()
+    abortController.current = controller
+
+    const sorted = files.slice().sort((a, b) => a.name.localeCompare(b.name))
+    setJars(sorted.map((file) => ({ fileName: file.name, status: "reading", candidates: [] })))
+    mapWithConcurrency(sorted, IDENTIFY_CONCURRENCY, async (file, index) => {
+      const jar = await readJarMetadata(file)
+      if (controller.signal.aborted) return
+      if (!jar.ok) {
+        updateJar(index, { status: "done", jar })
+        return
+      }
+
+      updateJar(index, { status: "searching", jar })
+      const result = await findMatchCandidates(apiClient, jar.metadata.name, { signal: controller.signal })
+      if (controller.signal.aborted) return
+      if (result.ok) {
+        updateJar(index, { status: "done", candidates: result.data })
+      } else {
+        console.error("Error searching for jar:", result.error)
+        updateJar(index, { status: "failed" })
+      }
+    })
+  }
+
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault()
+    setIsDragging(false)
+    setError(null)
+    try {
+      identify(await droppedJarFiles(event.dataTransfer))
+    } catch (dropError) {
+      console.error("Error reading dropped files:", dropError)
+      setError("Could not read the dropped files, try choosing the folder instead.")
+    }
+  }
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.prototype.slice.call(event.target.files ?? []) as File[]
+    event.target.value = ""
+    setError(null)
+    identify(files.filter(isJarFile))
+  }
+
+  const matchedCount = jars.filter((jar) => jar.candidates.length > 0).length
+  const unreadableCount = jars.filter((jar) => jar.jar && !jar.jar.ok).length
+
+  return (
+    <div className="space-y-6">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex flex-col items-center gap-4 p-10 rounded-lg border-2 border-dashed text-center transition-colors",
+          isDragging ? "border-green-500 bg-green-900/20" : "border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800",
+        )}
+      >
+        <FileArchive className="w-10 h-10 text-green-700 dark:text-green-400" />
+        <p className="text-gray-700 dark:text-gray-300 font-mono">
+          Drop your <code className="text-green-700 dark:text-green-400">mods</code> folder or some <code className="text-green-700 dark:text-green-400">.jar</code>{" "}
+          files here. They are read in your browser and never uploaded.
+        </p>
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => folderInputRef.current?.click()}
+            className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+          >
+            <FolderOpen className="w-4 h-4 mr-2" /> CHOOSE FOLDER
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono"
+          >
+            <FileArchive className="w-4 h-4 mr-2" /> CHOOSE JARS
+          </Button>
+        </div>
+        <input ref={folderInputRef} type="file" onChange={handleFiles} hidden />
+        <input ref={fileInputRef} type="file" accept=".jar" multiple onChange={handleFiles} hidden />
+      </div>
+
+      {error && <p className="text-red-700 dark:text-red-400 font-mono text-sm">⚠️ {error}</p>}
+
+      {jars.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 text-sm font-mono">
+          <span className="text-green-700 dark:text-green-400 font-bold">
+            📦 {jars.length} jar{jars.length !== 1 ? "s" : ""}
+          </span>
+          <span className="text-gray-700 dark:text-gray-300">🔎 {matchedCount} matched</span>
+          {unreadableCount > 0 && <span className="text-red-700 dark:text-red-400">⚠️ {unreadableCount} unreadable</span>}
+        </div>
+      )}
+
+      <div className="grid gap-4">
+        {jars.map((entry, index) => {
+          const [top, ...alternates] = entry.candidates
+          return (
+            <div
+              key={index}
+              className="grid gap-4 md:grid-cols-2 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700"
+            >
+              <div className="space-y-1 font-mono text-sm min-w-0">
+                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">📄 {entry.fileName}</p>
+                {entry.jar?.ok ? (
+                  <>
+                    <h4 className="font-bold text-green-700 dark:text-green-400">{entry.jar.metadata.name}</h4>
+                    <p className="text-gray-700 dark:text-gray-300">
+                      <span className="text-gray-500">id</span> {entry.jar.metadata.modId} ·{" "}
+                      <span className="text-gray-500">version</span> {entry.jar.metadata.version || "?"}
+                    </p>
+                    <p className="text-gray-700 dark:text-gray-300">
+                      <span className="text-gray-500">loader</span> {MOD_LOADER_LABELS[entry.jar.metadata.loader]}
+                    </p>
+                    {entry.jar.metadata.authors.length > 0 && (
+                      <p className="text-gray-700 dark:text-gray-300">👥 {entry.jar.metadata.authors.join(", ")}</p>
+                    )}
+                  </>
+                ) : entry.jar ? (
+                  <p className="text-red-700 dark:text-red-400">⚠️ {entry.jar.message}</p>
+                ) : (
+                  <p className="text-gray-600 dark:text-gray-400">⏳ reading...</p>
+                )}
+              </div>
+
+              <div className="space-y-2 min-w-0">
+                {entry.status === "searching" ? (
+                  <p className="text-gray-600 dark:text-gray-400 font-mono text-sm">⏳ searching...</p>
+                ) : entry.status === "failed" ? (
+                  <p className="text-red-700 dark:text-red-400 font-mono text-sm">⚠️ search failed</p>
+                ) : top ? (
+                  <>
+                    <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 font-mono">
+                      BEST MATCH <ConfidenceBadge confidence={top.confidence} />
+                    </div>
+                    <ModListItem mod={top.mod} />
+                    {alternates.length > 0 && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400 font-mono">
+                        OR:{" "}
+                        {alternates.slice(0, ALTERNATE_COUNT).map(({ mod }, i) => (
+                          <span key={mod.id}>
+                            {i > 0 && " · "}
+                            <Link href={modHref(mod)} className="text-blue-700 dark:text-blue-400 hover:underline">
+                              {mod.title}
+                            </Link>
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  entry.status === "done" &&
+                  entry.jar?.ok && <p className="text-gray-600 dark:text-gray-400 font-mono text-sm">🚫 not found in the index</p>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
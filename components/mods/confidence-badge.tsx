@@ -0,0 +1,20 @@
+import { HIGH_CONFIDENCE, MEDIUM_CONFIDENCE } from "@/lib/mod-list-import"
+import { cn } from "@/lib/utils"
+
+// How sure a name-to-mod match is, as a colored percentage
+export function ConfidenceBadge({ confidence }: { confidence: number }) {
+  return (
+    <span
+      className={cn(
+        "text-xs font-mono font-bold px-2 py-0.5 rounded border",
+        confidence >= HIGH_CONFIDENCE
+          ? "text-green-800 dark:text-green-300 bg-green-100 dark:bg-green-900/50 border-green-300 dark:border-green-700"
+          : confidence >= MEDIUM_CONFIDENCE
+            ? "text-yellow-800 dark:text-yellow-300 bg-yellow-100 dark:bg-yellow-900/40 border-yellow-300 dark:border-yellow-700"
+            : "text-red-800 dark:text-red-300 bg-red-100 dark:bg-red-900/40 border-red-300 dark:border-red-700",
+      )}
+    >
+      {Math.round(confidence * 100)}%
+    </span>
+  )
+}
@@ -0,0 +1,18 @@
+import Link from "next/link"
+import type { ModResult } from "@/lib/api"
+import { modHref } from "@/lib/mods"
+
+export function ModListItem({ mod }: { mod: ModResult }) {
+  return (
+    <Link
+      href={modHref(mod)}
+      className="block bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-300 dark:border-gray-600 hover:border-green-500 transition-colors"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-green-700 dark:text-green-400 font-mono">🧩 {mod.title}</h4>
+        <span className="text-sm text-gray-600 dark:text-gray-400 font-mono">{mod.categories.join(" · ")}</span>
+      </div>
+      <p className="text-gray-700 dark:text-gray-300 font-mono text-sm line-clamp-2">{mod.description}</p>
+    </Link>
+  )
+}
@@ -0,0 +1,13 @@
+import { UPSTREAM_TIMEOUT_MS } from "@/lib/api/proxy"
+import { backendClient } from "@/lib/api/server"
+import { cn } from "@/lib/utils"
+
+// The AI summary on its own, for a Suspense boundary so the slow model never holds up the mod
+export async function ModSummary({ modId, className }: { modId: number; className?: string }) {
+  const result = await backendClient.summary(modId, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS.summary) })
+  if (!result.ok) {
+    console.error("Error fetching summary:", result.error)
+    return <p className="text-red-700 dark:text-red-400 font-mono text-sm">⚠️ The summary could not be enchanted right now.</p>
+  }
+  return <p className={cn("leading-relaxed font-mono", className)}>{result.data.summary}</p>
+}
@@ -0,0 +1,41 @@
+import Link from "next/link"
+import { Star, Users } from "lucide-react"
+import { findRelatedMods, type ModResult } from "@/lib/api"
+import { backendClient } from "@/lib/api/server"
+import { modHref } from "@/lib/mods"
+
+const RELATED_MODS_LIMIT = 6
+
+export async function RelatedMods({ mod }: { mod: ModResult }) {
+  const result = await findRelatedMods(backendClient, mod, RELATED_MODS_LIMIT)
+  if (!result.ok) {
+    console.error("Error fetching related mods:", result.error)
+    return <p className="text-gray-500 font-mono">Related mods could not be mined right now.</p>
+  }
+  if (result.data.length === 0) {
+    return <p className="text-gray-500 font-mono">No related mods found.</p>
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {result.data.map((related) => (
+        <Link
+          key={related.id}
+          href={modHref(related)}
+          className="block bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-300 dark:border-gray-600 hover:border-green-500 transition-colors"
+        >
+          <h3 className="font-bold text-green-700 dark:text-green-400 font-mono mb-2">🧩 {related.title}</h3>
+          <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-gray-400 font-mono">
+            <span className="flex items-center">
+              <Users className="w-4 h-4 mr-1 text-blue-700 dark:text-blue-400" />
+              {related.authors.join(", ")}
+            </span>
+            <span className="flex items-center">
+              <Star className="w-4 h-4 mr-1 text-yellow-700 dark:text-yellow-400" />#{related.popularityRank.toLocaleString()}
+            </span>
+          </div>
+        </Link>
+      ))}
+    </div>
+  )
+}
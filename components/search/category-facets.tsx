@@ -0,0 +1,101 @@
+import { Ban } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { CategoryFilter } from "@/lib/api"
+import { toggleCategory, type CategoryCount } from "@/lib/facets"
+import { cn } from "@/lib/utils"
+
+interface CategoryFacetsProps {
+  counts: CategoryCount[]
+  filter: CategoryFilter
+  onChange: (filter: CategoryFilter) => void
+  // Set when the backend ignored the filter and only the loaded results are narrowed down
+  filteredLocally: boolean
+}
+
+export function CategoryFacets({ counts, filter, onChange, filteredLocally }: CategoryFacetsProps) {
+  // Selected categories stay listed even when no loaded result has them
+  const selected = filter.include.concat(filter.exclude)
+  const rows = counts.concat(
+    selected
+      .filter((category) => !counts.some((count) => count.category === category))
+      .map((category) => ({ category, count: 0 })),
+  )
+  const hasSelection = selected.length > 0
+
+  return (
+    <aside className="bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 space-y-4 h-fit">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-green-700 dark:text-green-400 font-mono">🏷️ CATEGORIES</h3>
+        {hasSelection && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...filter, include: [], exclude: [] })}
+            className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 font-mono h-7 px-2"
+          >
+            CLEAR
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Switch
+          id="category-mode"
+          checked={filter.mode === "and"}
+          onCheckedChange={(matchAll) => onChange({ ...filter, mode: matchAll ? "and" : "or" })}
+          className="data-[state=checked]:bg-green-600"
+        />
+        <Label htmlFor="category-mode" className="text-gray-700 dark:text-gray-300 font-mono text-sm">
+          {filter.mode === "and" ? "MATCH ALL" : "MATCH ANY"}
+        </Label>
+      </div>
+
+      <ul className="space-y-1 max-h-96 overflow-y-auto">
+        {rows.map(({ category, count }) => {
+          const included = filter.include.indexOf(category) !== -1
+          const excluded = filter.exclude.indexOf(category) !== -1
+          const id = `category-${category}`
+          return (
+            <li key={category} className="flex items-center space-x-2 py-1">
+              <Checkbox
+                id={id}
+                checked={included}
+                onCheckedChange={() => onChange(toggleCategory(filter, category, "include"))}
+                className="border-gray-400 dark:border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-500"
+              />
+              <Label
+                htmlFor={id}
+                className={cn(
+                  "flex-1 text-sm font-mono cursor-pointer",
+                  excluded ? "text-red-700 dark:text-red-400 line-through" : "text-gray-700 dark:text-gray-300",
+                )}
+              >
+                {category}
+              </Label>
+              <span className="text-xs font-mono text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-2 rounded">{count}</span>
+              <button
+                type="button"
+                onClick={() => onChange(toggleCategory(filter, category, "exclude"))}
+                aria-pressed={excluded}
+                aria-label={`${excluded ? "Stop excluding" : "Exclude"} ${category}`}
+                title={excluded ? "Stop excluding" : "Exclude"}
+                className={cn("p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700", excluded ? "text-red-700 dark:text-red-400" : "text-gray-500")}
+              >
+                <Ban className="w-4 h-4" />
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+
+      {filteredLocally && hasSelection && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 font-mono">
+          The search service ignored these filters, only the loaded mods are filtered.
+        </p>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,19 @@
+import { Search } from "lucide-react"
+
+interface EmptyStateProps {
+  title: string
+  message: string
+}
+
+export function EmptyState({ title, message }: EmptyStateProps) {
+  return (
+    <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+      <div className="text-gray-600 dark:text-gray-400 mb-6">
+        <div className="text-6xl mb-4">⛏️</div>
+        <Search className="w-16 h-16 mx-auto text-gray-600" />
+      </div>
+      <h3 className="text-2xl font-bold text-gray-600 dark:text-gray-400 mb-3 font-mono">{title}</h3>
+      <p className="text-gray-500 font-mono">{message}</p>
+    </div>
+  )
+}
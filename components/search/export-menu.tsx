@@ -0,0 +1,159 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { apiClient, searchAllResults, type ModResult } from "@/lib/api"
+import { downloadFile, exportFilename } from "@/lib/export"
+import { matchesCategoryFilter } from "@/lib/facets"
+import { matchesChartFilter, type ChartFilter } from "@/lib/result-analytics"
+import {
+  EXPORT_COLUMN_LABELS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMAT_DETAILS,
+  EXPORT_FORMATS,
+  serializeResults,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/results-export"
+import type { SearchState } from "@/lib/search-params"
+
+const EXPORT_PAGE_SIZE = 50
+const MAX_EXPORT_RESULTS = 1000
+
+const checkboxClassName = "border-gray-400 dark:border-gray-500 data-[state=checked]:bg-green-600 data-[state=checked]:border-green-500"
+
+interface ExportMenuProps {
+  state: SearchState
+  // What is on screen now, already filtered
+  results: ModResult[]
+  // Applied to every page when they are all loaded, so both scopes export the same selection
+  chartFilter: ChartFilter
+  hasMoreResults: boolean
+  filteredByBackend: boolean
+}
+
+export function ExportMenu({ state, results, chartFilter, hasMoreResults, filteredByBackend }: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [columns, setColumns] = useState<ExportColumn[]>(EXPORT_COLUMNS.slice())
+  const [fetchAll, setFetchAll] = useState(false)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleColumn = (column: ExportColumn) => {
+    // Keeps the columns in their usual order whatever order they are ticked in
+    setColumns((prev) =>
+      EXPORT_COLUMNS.filter((candidate) => (candidate === column) !== (prev.indexOf(candidate) !== -1)),
+    )
+  }
+
+  const loadAllResults = async (): Promise<ModResult[] | null> => {
+    setProgress("Loading results...")
+    const result = await searchAllResults(
+      apiClient,
+      { q: state.q, size: EXPORT_PAGE_SIZE, categories: state.categories, sort: state.sort },
+      MAX_EXPORT_RESULTS,
+      (loaded, total) =>
+        setProgress(`Loaded ${loaded.toLocaleString()}${total !== undefined ? ` of ${total.toLocaleString()}` : ""}...`),
+    )
+    setProgress(null)
+    if (!result.ok) {
+      console.error("Error loading results to export:", result.error)
+      setError("Could not load every page, try exporting the loaded results instead.")
+      return null
+    }
+    return result.data.filter(
+      (mod) =>
+        (filteredByBackend || matchesCategoryFilter(mod, state.categories)) && matchesChartFilter(mod, chartFilter),
+    )
+  }
+
+  const handleExport = async () => {
+    setError(null)
+    const mods = fetchAll && hasMoreResults ? await loadAllResults() : results
+    if (!mods) return
+    const details = EXPORT_FORMAT_DETAILS[format]
+    downloadFile(exportFilename(state.q, details.extension), serializeResults(mods, format, columns), details.type)
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono font-bold"
+        >
+          <Download className="w-4 h-4 mr-2" /> EXPORT
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono p-3 space-y-3">
+        <p className="text-sm font-bold text-green-700 dark:text-green-400">💾 EXPORT RESULTS</p>
+        <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+          <SelectTrigger aria-label="Export format" className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+            {EXPORT_FORMATS.map((value) => (
+              <SelectItem key={value} value={value} className="focus:bg-gray-100 dark:focus:bg-gray-700 focus:text-green-700 dark:focus:text-green-400">
+                {EXPORT_FORMAT_DETAILS[value].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <fieldset className="space-y-1">
+          <legend className="text-xs text-gray-600 dark:text-gray-400 mb-1">COLUMNS</legend>
+          {EXPORT_COLUMNS.map((column) => (
+            <div key={column} className="flex items-center space-x-2">
+              <Checkbox
+                id={`export-column-${column}`}
+                checked={columns.indexOf(column) !== -1}
+                onCheckedChange={() => toggleColumn(column)}
+                className={checkboxClassName}
+              />
+              <Label htmlFor={`export-column-${column}`} className="text-sm cursor-pointer">
+                {EXPORT_COLUMN_LABELS[column]}
+              </Label>
+            </div>
+          ))}
+        </fieldset>
+
+        {hasMoreResults && (
+          <div className="flex items-center space-x-2 border-t border-gray-300 dark:border-gray-700 pt-3">
+            <Checkbox
+              id="export-fetch-all"
+              checked={fetchAll}
+              onCheckedChange={(checked) => setFetchAll(checked === true)}
+              className={checkboxClassName}
+            />
+            <Label htmlFor="export-fetch-all" className="text-sm cursor-pointer">
+              Load every page first (up to {MAX_EXPORT_RESULTS.toLocaleString()})
+            </Label>
+          </div>
+        )}
+
+        {progress && (
+          <p role="status" className="text-xs text-gray-600 dark:text-gray-400">
+            ⏳ {progress}
+          </p>
+        )}
+        {error && <p className="text-xs text-red-700 dark:text-red-400">{error}</p>}
+
+        <Button
+          onClick={handleExport}
+          disabled={columns.length === 0 || progress !== null}
+          className="w-full bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {fetchAll && hasMoreResults ? "LOAD ALL & EXPORT" : `EXPORT ${results.length} MOD${results.length !== 1 ? "S" : ""}`}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Download, Sparkles } from "lucide-react"
+import { usePaletteCommands, type PaletteCommand } from "@/components/command-palette/palette-commands"
+import { CategoryFacets } from "@/components/search/category-facets"
+import { EmptyState } from "@/components/search/empty-state"
+import { ExportMenu } from "@/components/search/export-menu"
+import { PaginationModeToggle } from "@/components/search/pagination-mode-toggle"
+import { ResultsAnalytics } from "@/components/search/results-analytics"
+import { SortSelect } from "@/components/search/sort-select"
+import { useSummariesContext } from "@/components/search/summaries-provider"
+import { hasCategoryFilter, type CategoryFilter, type ModResult, type SortOrder } from "@/lib/api"
+import { downloadFile, exportFilename } from "@/lib/export"
+import { countCategories, matchesCategoryFilter, toggleCategory } from "@/lib/facets"
+import { parseSearchState, searchResultsKey, serializeSearchState, type SearchState } from "@/lib/search-params"
+import { matchesChartFilter, NO_CHART_FILTER, type ChartFilter } from "@/lib/result-analytics"
+import { EXPORT_COLUMNS, EXPORT_FORMAT_DETAILS, EXPORT_FORMATS, serializeResults } from "@/lib/results-export"
+import { readScrollPosition, saveScrollPosition } from "@/lib/scroll-positions"
+import { savePaginationMode, type PaginationMode } from "@/lib/settings"
+
+interface FilteredResultsProps {
+  query: string
+  results: ModResult[]
+  // The server-rendered card of each result, by mod id
+  cards: Record<number, React.ReactNode>
+  total?: number
+  hasMoreResults: boolean
+  paginationMode: PaginationMode
+  // False when the backend does not support category filters and they are applied here instead
+  filteredByBackend: boolean
+}
+
+// The filters and controls around the result cards. The cards come from the server, this only
+// picks which of them the category and chart filters leave visible.
+export function FilteredResults({
+  query,
+  results,
+  cards,
+  total,
+  hasMoreResults,
+  paginationMode,
+  filteredByBackend,
+}: FilteredResultsProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const urlState = useMemo(() => parseSearchState(searchParams), [searchParams])
+  const summaries = useSummariesContext()
+
+  const [chartFilter, setChartFilter] = useState<ChartFilter>(NO_CHART_FILTER)
+
+  const categoryCounts = useMemo(() => countCategories(results), [results])
+  const filteredResults = useMemo(
+    () => (filteredByBackend ? results : results.filter((mod) => matchesCategoryFilter(mod, urlState.categories))),
+    [filteredByBackend, results, urlState.categories],
+  )
+  const visibleResults = useMemo(
+    () => filteredResults.filter((mod) => matchesChartFilter(mod, chartFilter)),
+    [filteredResults, chartFilter],
+  )
+
+  // Key the scroll position is saved under, follows the page count as more results load
+  const scrollKey = useRef(searchResultsKey(urlState))
+  useEffect(() => {
+    scrollKey.current = searchResultsKey(urlState)
+  }, [urlState])
+
+  // Put the user back where they left this search, and remember it when they leave again
+  useEffect(() => {
+    const scrollY = readScrollPosition(scrollKey.current)
+    if (scrollY !== undefined) {
+      requestAnimationFrame(() => window.scrollTo(0, scrollY))
+    }
+
+    const saveScroll = () => saveScrollPosition(scrollKey.current, window.scrollY)
+    window.addEventListener("popstate", saveScroll)
+    window.addEventListener("pagehide", saveScroll)
+    return () => {
+      saveScroll()
+      window.removeEventListener("popstate", saveScroll)
+      window.removeEventListener("pagehide", saveScroll)
+    }
+  }, [])
+
+  const searchHref = (state: SearchState) => `/search?${serializeSearchState(state)}`
+
+  // Filter and sort changes are new searches with their own history entry
+  const handleFilterChange = (categories: CategoryFilter) => {
+    router.push(searchHref({ ...urlState, categories, page: 1 }), { scroll: false })
+  }
+
+  const handleSortChange = (sort: SortOrder) => {
+    router.push(searchHref({ ...urlState, sort, page: 1 }), { scroll: false })
+  }
+
+  // `page` means something else in each mode, so switching starts over from the first page
+  const handlePaginationModeChange = (mode: PaginationMode) => {
+    savePaginationMode(mode)
+    if (urlState.page === 1) {
+      router.refresh()
+    } else {
+      router.replace(searchHref({ ...urlState, page: 1 }))
+    }
+  }
+
+  usePaletteCommands(
+    useMemo<PaletteCommand[]>(
+      () => [
+        {
+          id: "open-summary",
+          label: "Open summary for selected result",
+          icon: Sparkles,
+          keywords: ["ai", "summarize"],
+          items: visibleResults.map((mod) => ({
+            id: `summary-${mod.id}`,
+            label: mod.title,
+            keywords: mod.authors,
+            run: () => summaries.open(mod),
+          })),
+        },
+        {
+          id: "export-results",
+          label: "Export results",
+          icon: Download,
+          keywords: ["download", "csv", "json", "markdown"],
+          // Every column of the loaded results; the export menu has the finer options
+          items: EXPORT_FORMATS.map((format) => {
+            const details = EXPORT_FORMAT_DETAILS[format]
+            return {
+              id: `export-${format}`,
+              label: `Export as ${details.label}`,
+              run: () =>
+                downloadFile(
+                  exportFilename(query, details.extension),
+                  serializeResults(visibleResults, format, EXPORT_COLUMNS.slice()),
+                  details.type,
+                ),
+            }
+          }),
+        },
+      ],
+      [visibleResults, query],
+    ),
+  )
+
+  return (
+    <>
+      <div className="flex items-center justify-between bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+        <h2 className="text-2xl font-bold text-green-700 dark:text-green-400 font-mono">📦 SEARCH RESULTS FOR "{query}"</h2>
+        <div className="flex items-center space-x-3">
+          <ExportMenu
+            state={urlState}
+            results={visibleResults}
+            chartFilter={chartFilter}
+            hasMoreResults={hasMoreResults}
+            filteredByBackend={filteredByBackend}
+          />
+          <SortSelect value={urlState.sort} onChange={handleSortChange} />
+          <span className="text-gray-700 dark:text-gray-300 font-mono bg-gray-100 dark:bg-gray-700 px-3 py-1 rounded border border-gray-300 dark:border-gray-600">
+            {total !== undefined
+              ? `${total.toLocaleString()} mod${total !== 1 ? "s" : ""} found`
+              : `${visibleResults.length} mod${visibleResults.length !== 1 ? "s" : ""} found`}
+          </span>
+        </div>
+      </div>
+
+      <ResultsAnalytics
+        results={filteredResults}
+        categoryFilter={urlState.categories}
+        chartFilter={chartFilter}
+        onCategoryClick={(category) => handleFilterChange(toggleCategory(urlState.categories, category, "include"))}
+        onChartFilterChange={setChartFilter}
+      />
+
+      <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+        <CategoryFacets
+          counts={categoryCounts}
+          filter={urlState.categories}
+          onChange={handleFilterChange}
+          filteredLocally={!filteredByBackend}
+        />
+
+        <div className="grid gap-6 h-fit">
+          {visibleResults.map((mod) => cards[mod.id])}
+          {visibleResults.length === 0 && (
+            <EmptyState
+              title="🚫 NO MODS DISCOVERED"
+              message={
+                hasCategoryFilter(urlState.categories)
+                  ? "No mods match these categories, try loosening the filters!"
+                  : "This page is empty, try an earlier one!"
+              }
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <PaginationModeToggle value={paginationMode} onChange={handlePaginationModeChange} />
+      </div>
+    </>
+  )
+}
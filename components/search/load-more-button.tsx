@@ -0,0 +1,26 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { ChevronRight } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+
+// The server renders every page up to the one in `href`, so loading more is a navigation. It
+// replaces the history entry, going back should leave the search rather than unload a page.
+export function LoadMoreButton({ href }: { href: string }) {
+  const router = useRouter()
+  const [isLoading, startTransition] = useTransition()
+
+  return (
+    <Button
+      onClick={() => startTransition(() => router.replace(href, { scroll: false }))}
+      disabled={isLoading}
+      size="lg"
+      className="bg-green-600 hover:bg-green-700 text-white font-mono font-bold px-8 py-4 text-lg border-2 border-green-500 shadow-lg hover:shadow-green-500/30 transition-all"
+    >
+      <ChevronRight className="w-5 h-5 mr-2" />
+      {isLoading ? "⏳ MINING MORE..." : "⛏️ MINE MORE RESULTS"}
+    </Button>
+  )
+}
@@ -0,0 +1,104 @@
+import Link from "next/link"
+import { AuthorLinks } from "@/components/authors/author-link"
+import { AddToCollectionButton } from "@/components/collections/add-to-collection-button"
+import { CompareToggle } from "@/components/compare/compare-toggle"
+import { FavoriteButton } from "@/components/favorites/favorite-button"
+import { SummaryButton } from "@/components/search/summary-button"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge, badgeVariants } from "@/components/ui/badge"
+import { ExternalLink, Users, Star } from "lucide-react"
+import type { ModResult } from "@/lib/api"
+import { modHref } from "@/lib/mods"
+import { cn } from "@/lib/utils"
+
+const categoryBadgeClassName =
+  "bg-green-700 hover:bg-green-600 text-green-100 border border-green-600 font-mono font-semibold px-3 py-1"
+
+// Rendered on the server; the buttons are the only client parts, and the summary one needs a
+// SummariesProvider above it
+interface ModCardProps {
+  mod: ModResult
+  // Makes the category badges links that filter the results
+  categoryFilterHref?: (category: string) => string
+  // Shows the popularity rank up front, used when results are sorted by it
+  highlightRank?: boolean
+}
+
+export function ModCard({ mod, categoryFilterHref, highlightRank }: ModCardProps) {
+  return (
+    <Card className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700 hover:border-green-500 transition-all duration-300 hover:shadow-2xl hover:shadow-green-500/20">
+      <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+        <div className="flex items-start justify-between">
+          {highlightRank && (
+            <div
+              className="mr-4 flex flex-col items-center justify-center min-w-16 px-3 py-2 bg-yellow-500/10 border-2 border-yellow-500 rounded-lg"
+              aria-label={`Popularity rank ${mod.popularityRank}`}
+            >
+              <Star className="w-5 h-5 text-yellow-700 dark:text-yellow-400" />
+              <span className="text-2xl font-bold text-yellow-700 dark:text-yellow-400 font-mono">#{mod.popularityRank.toLocaleString()}</span>
+            </div>
+          )}
+          <div className="flex-1">
+            <CardTitle className="text-xl mb-3 text-green-700 dark:text-green-400 font-mono font-bold">
+              <Link href={modHref(mod)} className="hover:underline">
+                🧩 {mod.title}
+              </Link>
+            </CardTitle>
+            <CardDescription className="flex items-center space-x-6 text-sm text-gray-700 dark:text-gray-300">
+              <span className="flex items-center bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                <Users className="w-4 h-4 mr-2 text-blue-700 dark:text-blue-400" />
+                <span className="font-mono">
+                  <AuthorLinks authors={mod.authors} />
+                </span>
+              </span>
+              <span className="flex items-center bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded border border-gray-300 dark:border-gray-600">
+                <Star className="w-4 h-4 mr-2 text-yellow-700 dark:text-yellow-400" />
+                {/* Perubahan untuk popularityRank */}
+                <span className="font-mono">Download Count: #{mod.popularityRank.toLocaleString()}</span>
+              </span>
+            </CardDescription>
+          </div>
+          <div className="flex space-x-3">
+            <CompareToggle mod={mod} />
+            <FavoriteButton mod={mod} />
+            <AddToCollectionButton mod={mod} />
+            <SummaryButton mod={mod} />
+            <Button
+              asChild
+              variant="outline"
+              size="sm"
+              className="bg-blue-700 hover:bg-blue-600 text-white border-blue-600 font-mono font-bold"
+            >
+              <a href={mod.websiteUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" /> VIEW
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-4">
+        <p className="text-gray-700 dark:text-gray-300 mb-4 line-clamp-3 font-mono leading-relaxed">{mod.description}</p>
+        <div className="flex flex-wrap gap-2">
+          {mod.categories.map((category) =>
+            categoryFilterHref ? (
+              <Link
+                key={category}
+                href={categoryFilterHref(category)}
+                scroll={false}
+                title={`Only show ${category} mods`}
+                className={cn(badgeVariants(), categoryBadgeClassName)}
+              >
+                🏷️ {category}
+              </Link>
+            ) : (
+              <Badge key={category} className={categoryBadgeClassName}>
+                🏷️ {category}
+              </Badge>
+            ),
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
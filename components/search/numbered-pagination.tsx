@@ -0,0 +1,101 @@
+"use client"
+
+import type React from "react"
+import { useRouter } from "next/navigation"
+
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { cn } from "@/lib/utils"
+
+interface NumberedPaginationProps {
+  page: number
+  // Unknown when the backend does not report a total, then only the pages up to the next one are listed
+  totalPages?: number
+  hasNextPage: boolean
+  pathname: string
+  // Query string of the current page minus `page`, which is added for every page but the first
+  query: string
+}
+
+// Pages around the current one plus the first and last, with null marking a gap
+function visiblePages(page: number, lastPage: number): (number | null)[] {
+  const pages: (number | null)[] = []
+  for (let candidate = 1; candidate <= lastPage; candidate++) {
+    if (candidate === 1 || candidate === lastPage || Math.abs(candidate - page) <= 1) {
+      pages.push(candidate)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+const linkClassName = "text-gray-700 dark:text-gray-300 font-mono hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-green-700 dark:hover:text-green-400 cursor-pointer"
+
+function pageHref(pathname: string, query: string, page: number): string {
+  const params = new URLSearchParams(query)
+  params.delete("page")
+  if (page > 1) params.set("page", String(page))
+  const search = params.toString()
+  return search ? `${pathname}?${search}` : pathname
+}
+
+export function NumberedPagination({ page, totalPages, hasNextPage, pathname, query }: NumberedPaginationProps) {
+  const router = useRouter()
+  const lastPage = totalPages ?? (hasNextPage ? page + 1 : page)
+
+  // Plain links for crawlers and new tabs, client-side navigation for normal clicks
+  const linkProps = (target: number) => {
+    const href = pageHref(pathname, query, target)
+    return {
+      href,
+      onClick: (event: React.MouseEvent) => {
+        if (event.metaKey || event.ctrlKey || event.shiftKey) return
+        event.preventDefault()
+        router.push(href)
+      },
+    }
+  }
+
+  return (
+    <Pagination className="mt-8">
+      <PaginationContent>
+        {page > 1 && (
+          <PaginationItem>
+            <PaginationPrevious {...linkProps(page - 1)} className={linkClassName} />
+          </PaginationItem>
+        )}
+        {visiblePages(page, lastPage).map((candidate, index) => (
+          <PaginationItem key={candidate ?? `gap-${index}`}>
+            {candidate === null ? (
+              <PaginationEllipsis className="text-gray-500" />
+            ) : (
+              <PaginationLink
+                {...linkProps(candidate)}
+                isActive={candidate === page}
+                className={cn(
+                  linkClassName,
+                  candidate === page && "bg-green-600 border-green-500 text-white hover:bg-green-700 hover:text-white",
+                )}
+              >
+                {candidate}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        {page < lastPage && (
+          <PaginationItem>
+            <PaginationNext {...linkProps(page + 1)} className={linkClassName} />
+          </PaginationItem>
+        )}
+      </PaginationContent>
+    </Pagination>
+  )
+}
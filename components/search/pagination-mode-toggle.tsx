@@ -0,0 +1,30 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { PaginationMode } from "@/lib/settings"
+
+interface PaginationModeToggleProps {
+  value: PaginationMode
+  onChange: (mode: PaginationMode) => void
+}
+
+const itemClassName =
+  "font-mono text-xs text-gray-600 dark:text-gray-400 data-[state=on]:bg-green-600 data-[state=on]:text-white hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-green-700 dark:hover:text-green-400"
+
+export function PaginationModeToggle({ value, onChange }: PaginationModeToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      value={value}
+      // Radix sends an empty value when the active item is clicked again
+      onValueChange={(next) => next && onChange(next as PaginationMode)}
+      aria-label="Pagination style"
+      className="bg-gray-100 dark:bg-gray-700 rounded border border-gray-300 dark:border-gray-600 p-0.5"
+    >
+      <ToggleGroupItem value="load-more" size="sm" className={itemClassName}>
+        ⛏️ LOAD MORE
+      </ToggleGroupItem>
+      <ToggleGroupItem value="numbered" size="sm" className={itemClassName}>
+        🔢 PAGES
+      </ToggleGroupItem>
+    </ToggleGroup>
+  )
+}
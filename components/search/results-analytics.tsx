@@ -0,0 +1,178 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, Cell, XAxis, YAxis } from "recharts"
+import { BarChart3, ChevronDown, X } from "lucide-react"
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import type { CategoryFilter, ModResult } from "@/lib/api"
+import { countCategories } from "@/lib/facets"
+import { countAuthors, countRankBuckets, type ChartFilter } from "@/lib/result-analytics"
+import { cn } from "@/lib/utils"
+
+const TOP_COUNT = 8
+
+const chartConfig = {
+  count: { label: "Mods", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const ACTIVE_COLOR = "hsl(var(--chart-4))"
+
+interface BarDatum {
+  name: string
+  count: number
+}
+
+interface AnalyticsChartProps {
+  title: string
+  data: BarDatum[]
+  active: string[]
+  onSelect: (name: string) => void
+  // Horizontal bars for named things, columns for the ordered rank buckets
+  layout: "horizontal" | "vertical"
+}
+
+function AnalyticsChart({ title, data, active, onSelect, layout }: AnalyticsChartProps) {
+  return (
+    <figure className="bg-gray-50 dark:bg-gray-900 p-3 rounded-lg border border-gray-300 dark:border-gray-700">
+      <figcaption className="text-xs font-bold text-gray-600 dark:text-gray-400 font-mono mb-2">{title}</figcaption>
+      {data.length === 0 ? (
+        <p className="h-56 flex items-center justify-center text-sm text-gray-500 font-mono">No data</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <BarChart data={data} layout={layout === "horizontal" ? "vertical" : "horizontal"} margin={{ left: 0 }}>
+            {layout === "horizontal" ? (
+              <>
+                <XAxis type="number" hide allowDecimals={false} />
+                <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} />
+              </>
+            ) : (
+              <>
+                <XAxis type="category" dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis type="number" hide allowDecimals={false} />
+              </>
+            )}
+            <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel={false} />} />
+            <Bar
+              dataKey="count"
+              radius={4}
+              cursor="pointer"
+              onClick={(_, index) => onSelect(data[index].name)}
+            >
+              {data.map((datum) => (
+                <Cell
+                  key={datum.name}
+                  fill={active.indexOf(datum.name) !== -1 ? ACTIVE_COLOR : "var(--color-count)"}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      )}
+    </figure>
+  )
+}
+
+interface ResultsAnalyticsProps {
+  // The loaded results after the category filters, before the chart filter
+  results: ModResult[]
+  categoryFilter: CategoryFilter
+  chartFilter: ChartFilter
+  onCategoryClick: (category: string) => void
+  onChartFilterChange: (filter: ChartFilter) => void
+}
+
+export function ResultsAnalytics({
+  results,
+  categoryFilter,
+  chartFilter,
+  onCategoryClick,
+  onChartFilterChange,
+}: ResultsAnalyticsProps) {
+  const [open, setOpen] = useState(false)
+
+  const categories = useMemo(
+    () =>
+      countCategories(results)
+        .slice(0, TOP_COUNT)
+        .map(({ category, count }) => ({ name: category, count })),
+    [results],
+  )
+  const authors = useMemo(
+    () =>
+      countAuthors(results)
+        .slice(0, TOP_COUNT)
+        .map(({ author, count }) => ({ name: author, count })),
+    [results],
+  )
+  const ranks = useMemo(
+    () => countRankBuckets(results).map(({ label, count }) => ({ name: label, count })),
+    [results],
+  )
+
+  // Clicking the picked bar again drops it
+  const toggleAuthor = (author: string) =>
+    onChartFilterChange({ ...chartFilter, author: chartFilter.author === author ? null : author })
+  const toggleRankBucket = (bucket: string) =>
+    onChartFilterChange({ ...chartFilter, rankBucket: chartFilter.rankBucket === bucket ? null : bucket })
+
+  const chips = [
+    chartFilter.author !== null && {
+      label: `👥 ${chartFilter.author}`,
+      clear: () => onChartFilterChange({ ...chartFilter, author: null }),
+    },
+    chartFilter.rankBucket !== null && {
+      label: `⭐ ${chartFilter.rankBucket}`,
+      clear: () => onChartFilterChange({ ...chartFilter, rankBucket: null }),
+    },
+  ].filter((chip): chip is { label: string; clear: () => void } => Boolean(chip))
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+      <div className="flex flex-wrap items-center gap-3">
+        <CollapsibleTrigger className="flex items-center text-green-700 dark:text-green-400 font-mono font-bold hover:text-green-600 dark:hover:text-green-300">
+          <BarChart3 className="w-4 h-4 mr-2" /> RESULT ANALYTICS
+          <ChevronDown className={cn("w-4 h-4 ml-2 transition-transform", open && "rotate-180")} />
+        </CollapsibleTrigger>
+        {chips.map((chip) => (
+          <span
+            key={chip.label}
+            className="flex items-center text-xs font-mono text-gray-900 bg-yellow-400 px-2 py-0.5 rounded"
+          >
+            {chip.label}
+            <button type="button" onClick={chip.clear} aria-label={`Clear ${chip.label}`} className="ml-1">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <span className="ml-auto text-xs text-gray-600 dark:text-gray-400 font-mono">
+          of the {results.length} loaded result{results.length !== 1 ? "s" : ""}, click a bar to filter
+        </span>
+      </div>
+      <CollapsibleContent className="grid gap-4 mt-4 md:grid-cols-3">
+        <AnalyticsChart
+          title="🏷️ CATEGORIES"
+          data={categories}
+          active={categoryFilter.include}
+          onSelect={onCategoryClick}
+          layout="horizontal"
+        />
+        <AnalyticsChart
+          title="👥 TOP AUTHORS"
+          data={authors}
+          active={chartFilter.author !== null ? [chartFilter.author] : []}
+          onSelect={toggleAuthor}
+          layout="horizontal"
+        />
+        <AnalyticsChart
+          title="⭐ POPULARITY RANKS"
+          data={ranks}
+          active={chartFilter.rankBucket !== null ? [chartFilter.rankBucket] : []}
+          onSelect={toggleRankBucket}
+          layout="vertical"
+        />
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,25 @@
+import { Skeleton } from "@/components/ui/skeleton"
+
+export function ResultsSkeleton() {
+  return (
+    <div className="space-y-6" aria-busy="true" aria-label="Loading results">
+      <Skeleton className="h-16 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700" />
+      <div className="grid gap-6">
+        {[0, 1, 2].map((index) => (
+          <div key={index} className="bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-700 rounded-lg p-6 space-y-4">
+            <Skeleton className="h-6 w-1/3 bg-gray-100 dark:bg-gray-700" />
+            <div className="flex space-x-6">
+              <Skeleton className="h-7 w-32 bg-gray-100 dark:bg-gray-700" />
+              <Skeleton className="h-7 w-48 bg-gray-100 dark:bg-gray-700" />
+            </div>
+            <Skeleton className="h-16 w-full bg-gray-100 dark:bg-gray-700" />
+            <div className="flex gap-2">
+              <Skeleton className="h-7 w-24 bg-gray-100 dark:bg-gray-700" />
+              <Skeleton className="h-7 w-24 bg-gray-100 dark:bg-gray-700" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback, useId, useMemo, useRef, useTransition } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Search } from "lucide-react"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { useLocalStore } from "@/hooks/use-local-store"
+import { apiClient } from "@/lib/api"
+import { orderHistory, searchHistoryStore } from "@/lib/search-history"
+import { parseSearchState, replaceAutocompleteMode, serializeSearchState } from "@/lib/search-params"
+import { cn } from "@/lib/utils"
+
+const RECENT_SEARCH_COUNT = 5
+
+export function SearchBox() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const urlState = useMemo(() => parseSearchState(searchParams), [searchParams])
+
+  const [query, setQuery] = useState(urlState.q)
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  // Suggestion highlighted with the arrow keys, -1 while the input itself is active
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [isSearching, startSearch] = useTransition()
+  const useAdvancedAutocomplete = urlState.mode === "sayt"
+
+  const debounceTimer = useRef<NodeJS.Timeout | undefined>(undefined)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const listboxId = useId()
+  const optionId = (index: number) => `${listboxId}-option-${index}`
+  // An empty box lists recent searches instead of suggestions
+  const history = useLocalStore(searchHistoryStore)
+  const recentSearches = useMemo(() => orderHistory(history).slice(0, RECENT_SEARCH_COUNT), [history])
+  const showingRecent = !query.trim()
+  const options = showingRecent ? recentSearches.map((entry) => entry.term) : suggestions
+  const isListboxOpen = showSuggestions && options.length > 0
+  const optionsNoun = showingRecent
+    ? options.length === 1
+      ? "recent search"
+      : "recent searches"
+    : options.length === 1
+      ? "suggestion"
+      : "suggestions"
+
+  // Back/forward to another search puts its term back in the box
+  useEffect(() => {
+    setQuery(urlState.q)
+  }, [urlState.q])
+
+  // Debounced autocomplete
+  const fetchSuggestions = useCallback(
+    async (searchTerm: string) => {
+      if (!searchTerm.trim()) {
+        setSuggestions([])
+        setShowSuggestions(false)
+        return
+      }
+
+      const endpoint = useAdvancedAutocomplete ? "sayt" : "suggester"
+      const result = await apiClient.autocomplete(endpoint, { q: searchTerm, size: 5 })
+      if (result.ok) {
+        setSuggestions(result.data.suggestions)
+        setActiveIndex(-1)
+        setShowSuggestions(true)
+      } else {
+        console.error("Error fetching suggestions:", result.error)
+        setSuggestions([])
+        setShowSuggestions(false)
+      }
+    },
+    [useAdvancedAutocomplete],
+  )
+
+  // Handle input change with debouncing
+  const handleInputChange = (value: string) => {
+    setQuery(value)
+
+    // Clear existing timer
+    if (debounceTimer.current) {
+      clearTimeout(debounceTimer.current)
+    }
+
+    if (!value.trim()) {
+      setSuggestions([])
+      setActiveIndex(-1)
+      setShowSuggestions(true)
+      return
+    }
+
+    // Set new timer for 5 seconds
+    debounceTimer.current = setTimeout(() => {
+      fetchSuggestions(value)
+    }, 1000)
+  }
+
+  // Every search gets its own history entry on the server-rendered results page
+  const handleSearch = (searchTerm?: string) => {
+    const term = searchTerm || query
+    if (term.trim()) {
+      setShowSuggestions(false)
+      const queryString = serializeSearchState({ ...urlState, q: term, page: 1 })
+      startSearch(() => router.push(`/search?${queryString}`, { scroll: false }))
+    }
+  }
+
+  // Puts the suggestion in the box without searching yet
+  const acceptSuggestion = (suggestion: string) => {
+    setQuery(suggestion)
+    setShowSuggestions(false)
+  }
+
+  // Handle suggestion click
+  const handleSuggestionClick = (suggestion: string) => {
+    acceptSuggestion(suggestion)
+    handleSearch(suggestion)
+  }
+
+  const handleModeChange = (advanced: boolean) => {
+    replaceAutocompleteMode(urlState, advanced ? "sayt" : "suggester")
+  }
+
+  // Combobox keys: arrows move through the suggestions, Enter searches the highlighted one or
+  // the typed text, Tab accepts the highlighted one and Escape closes the list
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const activeSuggestion = isListboxOpen && activeIndex !== -1 ? options[activeIndex] : undefined
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (options.length === 0) return
+      e.preventDefault()
+      if (!isListboxOpen) {
+        setShowSuggestions(true)
+        setActiveIndex(e.key === "ArrowDown" ? 0 : options.length - 1)
+        return
+      }
+      // Wraps through -1 so the typed text can be selected again
+      const step = e.key === "ArrowDown" ? 1 : -1
+      setActiveIndex(((activeIndex + 1 + step + options.length + 1) % (options.length + 1)) - 1)
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      if (activeSuggestion !== undefined) handleSuggestionClick(activeSuggestion)
+      else handleSearch()
+    } else if (e.key === "Tab") {
+      if (activeSuggestion === undefined) return
+      e.preventDefault()
+      acceptSuggestion(activeSuggestion)
+    } else if (e.key === "Escape") {
+      setShowSuggestions(false)
+      setActiveIndex(-1)
+    }
+  }
+
+  // Clear debounce timer on unmount
+  useEffect(() => {
+    return () => {
+      if (debounceTimer.current) {
+        clearTimeout(debounceTimer.current)
+      }
+    }
+  }, [])
+
+  return (
+    <div className="max-w-2xl mx-auto mb-8">
+      <div className="relative">
+        <div className="flex items-center space-x-3 mb-4 bg-white dark:bg-gray-800 p-4 rounded-lg border-2 border-gray-300 dark:border-gray-700">
+          <Switch
+            id="autocomplete-mode"
+            checked={useAdvancedAutocomplete}
+            onCheckedChange={handleModeChange}
+            className="data-[state=checked]:bg-green-600"
+          />
+          <Label htmlFor="autocomplete-mode" className="text-green-700 dark:text-green-400 font-mono font-semibold">
+            {useAdvancedAutocomplete ? "🔮 ADVANCED" : "⚡ FAST"} AUTOCOMPLETE
+          </Label>
+          <span className="ml-auto text-xs text-gray-600 dark:text-gray-400 font-mono">
+            <kbd className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600">CTRL K</kbd> COMMANDS
+          </span>
+        </div>
+
+        <div className="relative">
+          <Input
+            ref={searchInputRef}
+            type="text"
+            placeholder="Search for epic mods..."
+            value={query}
+            onChange={(e) => handleInputChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-label="Search mods"
+            aria-autocomplete="list"
+            aria-expanded={isListboxOpen}
+            aria-controls={listboxId}
+            aria-activedescendant={isListboxOpen && activeIndex !== -1 ? optionId(activeIndex) : undefined}
+            onFocus={() => {
+              if (query.trim()) {
+                fetchSuggestions(query)
+              } else {
+                setActiveIndex(-1)
+                setShowSuggestions(true)
+              }
+            }}
+            onBlur={() => setShowSuggestions(false)}
+            className="pl-12 pr-32 py-4 text-lg bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 text-gray-900 dark:text-green-100 placeholder-gray-400 focus:border-green-500 focus:ring-green-500 font-mono rounded-lg"
+          />
+          <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-green-700 dark:text-green-400 w-6 h-6" />
+          <Button
+            onClick={() => handleSearch()}
+            className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-green-600 hover:bg-green-700 text-white font-mono font-bold px-6 py-2 rounded border-2 border-green-500 shadow-lg"
+            disabled={isSearching}
+          >
+            {isSearching ? "⏳ MINING..." : "🔍 SEARCH"}
+          </Button>
+        </div>
+
+        {/* Autocomplete Suggestions; mousedown is cancelled so the input keeps focus and stays open */}
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={showingRecent ? "Recent searches" : "Suggestions"}
+          hidden={!isListboxOpen}
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute top-full left-0 right-0 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-2xl z-10 mt-2 overflow-hidden"
+        >
+          {isListboxOpen && showingRecent && (
+            <li role="presentation" className="px-4 pt-3 pb-1 text-xs text-gray-600 dark:text-gray-400 font-mono">
+              🕘 RECENT SEARCHES
+            </li>
+          )}
+          {isListboxOpen &&
+            options.map((suggestion, index) => (
+              <li
+                key={index}
+                id={optionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => handleSuggestionClick(suggestion)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  "px-4 py-3 cursor-pointer text-gray-900 dark:text-green-100 font-mono border-b border-gray-300 dark:border-gray-700 last:border-b-0 transition-colors",
+                  index === activeIndex && "bg-gray-100 dark:bg-gray-700 text-green-700 dark:text-green-400",
+                )}
+              >
+                {showingRecent ? (recentSearches[index].pinned ? "📌" : "🕘") : "🔸"} {suggestion}
+              </li>
+            ))}
+        </ul>
+        <div role="status" aria-live="polite" className="sr-only">
+          {isListboxOpen && `${options.length} ${optionsNoun} available, use the up and down arrows to choose`}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import Link from "next/link"
+
+export function SearchHero() {
+  return (
+    <div className="text-center mb-8">
+      <h1 className="text-5xl font-bold text-green-700 dark:text-green-400 mb-2 font-mono tracking-wider drop-shadow-lg">
+        <Link href="/">⛏️ MINECRAFT MODS SEARCH ⛏️</Link>
+      </h1>
+      <p className="text-gray-700 dark:text-gray-300 text-lg font-mono">Discover amazing mods from the depths of CurseForge</p>
+      <div className="w-32 h-1 bg-gradient-to-r from-green-400 to-emerald-500 mx-auto mt-4 rounded"></div>
+    </div>
+  )
+}
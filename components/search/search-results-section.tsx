@@ -0,0 +1,71 @@
+import { RecordSearch } from "@/components/history/record-search"
+import { EmptyState } from "@/components/search/empty-state"
+import { SearchResults } from "@/components/search/search-results"
+import { hasCategoryFilter } from "@/lib/api"
+import { backendClient } from "@/lib/api/server"
+import { pageOffset } from "@/lib/pagination"
+import { clampLoadedPages, SEARCH_PAGE_SIZE, type SearchState } from "@/lib/search-params"
+import type { PaginationMode } from "@/lib/settings"
+
+interface SearchResultsSectionProps {
+  state: SearchState
+  paginationMode: PaginationMode
+}
+
+// Fetches on the server the page the URL asks for, or every page up to it with "load more"
+export async function SearchResultsSection({ state: requested, paginationMode }: SearchResultsSectionProps) {
+  const numbered = paginationMode === "numbered"
+  const state = numbered ? requested : clampLoadedPages(requested)
+  const result = await backendClient.search({
+    q: state.q,
+    size: numbered ? SEARCH_PAGE_SIZE : SEARCH_PAGE_SIZE * state.page,
+    offset: numbered ? pageOffset(state.page, SEARCH_PAGE_SIZE) : 0,
+    categories: state.categories,
+    sort: state.sort,
+  })
+
+  if (!result.ok) {
+    console.error("Error searching:", result.error)
+    return (
+      <EmptyState
+        title="🚫 THE MINES ARE UNREACHABLE"
+        message="The search service did not answer. Try again in a moment!"
+      />
+    )
+  }
+
+  const recordSearch = (
+    <RecordSearch
+      term={state.q}
+      mode={state.mode}
+      resultCount={result.data.total ?? result.data.results.length}
+    />
+  )
+
+  // With filters active the list still renders, so the facets stay reachable to loosen them
+  if (result.data.results.length === 0 && !hasCategoryFilter(state.categories) && state.page === 1) {
+    return (
+      <>
+        {recordSearch}
+        <EmptyState
+          title="🚫 NO MODS DISCOVERED"
+          message="Try different search terms or explore the vast world of modding!"
+        />
+      </>
+    )
+  }
+
+  return (
+    <>
+      {recordSearch}
+      <SearchResults
+        state={state}
+        results={result.data.results}
+        filteredByBackend={result.data.filters !== undefined}
+        pageSize={SEARCH_PAGE_SIZE}
+        total={result.data.total}
+        paginationMode={paginationMode}
+      />
+    </>
+  )
+}
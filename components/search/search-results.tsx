@@ -0,0 +1,96 @@
+import type React from "react"
+
+import { FilteredResults } from "@/components/search/filtered-results"
+import { LoadMoreButton } from "@/components/search/load-more-button"
+import { ModCard } from "@/components/search/mod-card"
+import { NumberedPagination } from "@/components/search/numbered-pagination"
+import { SummariesProvider } from "@/components/search/summaries-provider"
+import type { ModResult } from "@/lib/api"
+import { toggleCategory } from "@/lib/facets"
+import { hasMorePages, pageOffset } from "@/lib/pagination"
+import { MAX_LOADED_PAGES, serializeSearchState, type SearchState } from "@/lib/search-params"
+import type { PaginationMode } from "@/lib/settings"
+
+interface SearchResultsProps {
+  state: SearchState
+  // Page `state.page`, or every page up to it with "load more"
+  results: ModResult[]
+  pageSize: number
+  total?: number
+  paginationMode: PaginationMode
+  // False when the backend does not support category filters and they are applied on the client
+  filteredByBackend: boolean
+}
+
+export function SearchResults({ state, results, pageSize, total, paginationMode, filteredByBackend }: SearchResultsProps) {
+  const numbered = paginationMode === "numbered"
+  const hasMoreResults = hasMorePages({
+    loadedCount: numbered ? pageOffset(state.page, pageSize) + results.length : results.length,
+    lastBatchSize: results.length,
+    requestedSize: numbered ? pageSize : pageSize * state.page,
+    total,
+  })
+
+  const searchHref = (next: SearchState) => `/search?${serializeSearchState(next)}`
+
+  // Adds the category to the filters, a category already filtered on leaves them be
+  const categoryFilterHref = (category: string) =>
+    searchHref({
+      ...state,
+      categories:
+        state.categories.include.indexOf(category) === -1
+          ? toggleCategory(state.categories, category, "include")
+          : state.categories,
+      page: 1,
+    })
+
+  const cards: Record<number, React.ReactNode> = {}
+  results.forEach((mod) => {
+    cards[mod.id] = (
+      <ModCard
+        key={mod.id}
+        mod={mod}
+        categoryFilterHref={categoryFilterHref}
+        highlightRank={state.sort === "popularity"}
+      />
+    )
+  })
+
+  return (
+    <SummariesProvider>
+      <div className="space-y-6">
+        <FilteredResults
+          query={state.q}
+          results={results}
+          cards={cards}
+          total={total}
+          hasMoreResults={hasMoreResults}
+          paginationMode={paginationMode}
+          filteredByBackend={filteredByBackend}
+        />
+
+        {numbered && (
+          <NumberedPagination
+            page={state.page}
+            totalPages={total !== undefined ? Math.max(1, Math.ceil(total / pageSize)) : undefined}
+            hasNextPage={hasMoreResults}
+            pathname="/search"
+            query={serializeSearchState(state)}
+          />
+        )}
+
+        {!numbered && hasMoreResults && state.page < MAX_LOADED_PAGES && (
+          <div className="text-center mt-8">
+            <LoadMoreButton href={searchHref({ ...state, page: state.page + 1 })} />
+          </div>
+        )}
+
+        {!numbered && hasMoreResults && state.page >= MAX_LOADED_PAGES && (
+          <p className="text-center mt-8 text-gray-600 dark:text-gray-400 font-mono text-sm">
+            📜 That's as deep as this mine goes. Switch to numbered pages to dig further!
+          </p>
+        )}
+      </div>
+    </SummariesProvider>
+  )
+}
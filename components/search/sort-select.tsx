@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SORT_ORDERS, type SortOrder } from "@/lib/api"
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  relevance: "🎯 RELEVANCE",
+  popularity: "⭐ POPULARITY",
+  title: "🔤 TITLE A–Z",
+  author: "👥 AUTHOR A–Z",
+}
+
+interface SortSelectProps {
+  value: SortOrder
+  onChange: (sort: SortOrder) => void
+}
+
+export function SortSelect({ value, onChange }: SortSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as SortOrder)}>
+      <SelectTrigger
+        aria-label="Sort results"
+        className="w-48 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono focus:ring-green-500"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 font-mono">
+        {SORT_ORDERS.map((sort) => (
+          <SelectItem key={sort} value={sort} className="focus:bg-gray-100 dark:focus:bg-gray-700 focus:text-green-700 dark:focus:text-green-400">
+            {SORT_LABELS[sort]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext } from "react"
+
+import { SummaryModal } from "@/components/search/summary-modal"
+import { useSummaries } from "@/hooks/use-summaries"
+
+type Summaries = ReturnType<typeof useSummaries>
+
+const SummariesContext = createContext<Summaries | null>(null)
+
+// Shares the summaries between the server-rendered cards' buttons and renders the open one
+export function SummariesProvider({ children }: { children: React.ReactNode }) {
+  const summaries = useSummaries()
+  const openSummary = summaries.openSummary
+
+  return (
+    <SummariesContext.Provider value={summaries}>
+      {children}
+      {openSummary && (
+        <SummaryModal
+          summary={openSummary}
+          onStop={() => summaries.stop(openSummary.modId)}
+          onClose={summaries.close}
+        />
+      )}
+    </SummariesContext.Provider>
+  )
+}
+
+export function useSummariesContext(): Summaries {
+  const summaries = useContext(SummariesContext)
+  if (!summaries) throw new Error("useSummariesContext must be used within a SummariesProvider")
+  return summaries
+}
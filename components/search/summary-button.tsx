@@ -0,0 +1,33 @@
+"use client"
+
+import { Sparkles } from "lucide-react"
+
+import { useSummariesContext } from "@/components/search/summaries-provider"
+import { Button } from "@/components/ui/button"
+import type { ModResult } from "@/lib/api"
+
+// Opens the AI summary, streaming it in unless it is cached
+export function SummaryButton({ mod }: { mod: ModResult }) {
+  const summaries = useSummariesContext()
+  // Undefined until a summary is asked for; "done" when it is cached and opens right away
+  const status = summaries.summaryFor(mod.id)?.status
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => summaries.open(mod)}
+      className="relative bg-purple-700 hover:bg-purple-600 text-white border-purple-600 font-mono font-bold"
+    >
+      <Sparkles className="w-4 h-4 mr-2" />
+      {status === "streaming" ? "SUMMARIZING..." : status === "done" ? "READ AI SUMMARY" : "SUMMARIZE WITH AI"}
+      {status === "done" && (
+        <span
+          className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-green-400 border-2 border-white dark:border-gray-800"
+          title="Summary ready"
+          aria-label="Summary ready"
+        />
+      )}
+    </Button>
+  )
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Sparkles, Square } from "lucide-react"
+import type { SummaryView } from "@/hooks/use-summaries"
+
+interface SummaryModalProps {
+  summary: SummaryView
+  onStop: () => void
+  onClose: () => void
+}
+
+export function SummaryModal({ summary, onStop, onClose }: SummaryModalProps) {
+  const isStreaming = summary.status === "streaming"
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center p-4 z-50">
+      <Card className="max-w-2xl w-full max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 border-2 border-purple-600 shadow-2xl shadow-purple-500/30">
+        <CardHeader className="border-b border-gray-300 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center text-purple-700 dark:text-purple-400 font-mono font-bold text-xl">
+              <Sparkles className="w-6 h-6 mr-3 text-purple-700 dark:text-purple-400" />🔮 AI ENCHANTMENT SUMMARY
+            </CardTitle>
+            <div className="flex items-center space-x-2">
+              {isStreaming && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onStop}
+                  className="bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-900 dark:hover:text-white font-mono font-bold"
+                >
+                  <Square className="w-4 h-4 mr-2" /> STOP
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 font-mono font-bold text-xl"
+              >
+                ❌
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <h3 className="font-bold text-lg mb-4 text-green-700 dark:text-green-400 font-mono">📦 {summary.title}</h3>
+          <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-300 dark:border-gray-600" aria-busy={isStreaming}>
+            {summary.status === "failed" && !summary.text ? (
+              <p className="text-red-700 dark:text-red-400 font-mono">⚠️ The enchantment fizzled, the summary could not be generated.</p>
+            ) : (
+              <p className="text-gray-700 dark:text-gray-300 leading-relaxed font-mono whitespace-pre-wrap">
+                {summary.text || (isStreaming && <span className="text-gray-500">⏳ Summoning the summary...</span>)}
+                {/* Cursor while tokens are still arriving */}
+                {isStreaming && summary.text && <span className="animate-pulse text-purple-700 dark:text-purple-400">▍</span>}
+              </p>
+            )}
+            {summary.status === "stopped" && <p className="mt-3 text-xs text-gray-500 font-mono">⏹️ Stopped early.</p>}
+            {summary.status === "failed" && summary.text && (
+              <p className="mt-3 text-xs text-red-700 dark:text-red-400 font-mono">⚠️ The summary broke off before the end.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
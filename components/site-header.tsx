@@ -0,0 +1,57 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { FileArchive, FolderOpen, History, Star, Tags } from "lucide-react"
+
+import { useLocalStore } from "@/hooks/use-local-store"
+import { favoritesStore } from "@/lib/favorites"
+import { cn } from "@/lib/utils"
+
+const NAV_LINKS = [
+  { href: "/categories", label: "CATEGORIES", icon: Tags },
+  { href: "/history", label: "HISTORY", icon: History },
+  { href: "/favorites", label: "FAVORITES", icon: Star },
+  { href: "/collections", label: "COLLECTIONS", icon: FolderOpen },
+  { href: "/identify", label: "IDENTIFY", icon: FileArchive },
+]
+
+export function SiteHeader() {
+  const pathname = usePathname()
+  const favoriteCount = useLocalStore(favoritesStore).length
+
+  return (
+    <header className="border-b-2 border-gray-300 dark:border-gray-700 bg-gray-50/80 dark:bg-gray-900/80">
+      <nav className="container mx-auto px-4 py-3 flex items-center justify-between font-mono">
+        <Link href="/" className="font-bold text-green-700 dark:text-green-400 hover:text-green-600 dark:hover:text-green-300">
+          ⛏️ MODS SEARCH
+        </Link>
+        <ul className="flex items-center gap-2">
+          {NAV_LINKS.map(({ href, label, icon: Icon }) => (
+            <li key={href}>
+              <Link
+                href={href}
+                aria-current={pathname.indexOf(href) === 0 ? "page" : undefined}
+                className={cn(
+                  "flex items-center px-3 py-1 rounded text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-green-700 dark:hover:text-green-400",
+                  pathname.indexOf(href) === 0 && "bg-gray-100 dark:bg-gray-700 text-green-700 dark:text-green-400",
+                )}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+                {href === "/favorites" && favoriteCount > 0 && (
+                  <span
+                    className="ml-2 px-1.5 rounded bg-yellow-500 text-gray-900 text-xs font-bold"
+                    aria-label={`${favoriteCount} favorites`}
+                  >
+                    {favoriteCount}
+                  </span>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </nav>
+    </header>
+  )
+}
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from "react"
+
+import type { LocalStore } from "@/lib/local-store"
+
+// The server and the first client render see the fallback, the stored value follows right after
+export function useLocalStore<T>(store: LocalStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.read, () => store.fallback)
+}
+
+function subscribeNever() {
+  return () => {}
+}
+
+// False during the server render and hydration, when useLocalStore still returns the fallback
+export function useHasHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribeNever,
+    () => true,
+    () => false,
+  )
+}
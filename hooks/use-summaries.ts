@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { useLocalStore } from "@/hooks/use-local-store"
+import { apiClient, streamSummary, type ModResult } from "@/lib/api"
+import { cacheSummary, findCachedSummary, summaryCacheStore } from "@/lib/summary-cache"
+
+export type SummaryStatus = "streaming" | "done" | "stopped" | "failed"
+
+export interface SummaryView {
+  modId: number
+  title: string
+  // Grows while streaming, kept when stopped
+  text: string
+  status: SummaryStatus
+}
+
+// Summaries per mod, several of which can stream at once. The modal shows one of them; closing it
+// leaves the rest running, and finished summaries are served from the cache until they expire.
+export function useSummaries() {
+  const [summaries, setSummaries] = useState<Record<number, SummaryView>>({})
+  const [openModId, setOpenModId] = useState<number | null>(null)
+  const controllers = useRef<Record<number, AbortController>>({})
+  const cache = useLocalStore(summaryCacheStore)
+
+  // Cached summaries take precedence over a finished one in memory, never over one in progress
+  const summaryFor = useCallback(
+    (modId: number): SummaryView | undefined => {
+      const current = summaries[modId]
+      if (current?.status === "streaming") return current
+      const cached = findCachedSummary(cache, modId)
+      return cached ? { modId, title: cached.title, text: cached.summary, status: "done" } : current
+    },
+    [summaries, cache],
+  )
+
+  const update = (modId: number, change: Partial<SummaryView>) =>
+    setSummaries((prev) => (prev[modId] ? { ...prev, [modId]: { ...prev[modId], ...change } } : prev))
+
+  const request = async (mod: Pick<ModResult, "id" | "title">) => {
+    const controller = new AbortController()
+    controllers.current[mod.id] = controller
+    setSummaries((prev) => ({
+      ...prev,
+      [mod.id]: { modId: mod.id, title: mod.title, text: "", status: "streaming" },
+    }))
+
+    const result = await streamSummary(apiClient, mod.id, (text) => update(mod.id, { text }), {
+      signal: controller.signal,
+    })
+    delete controllers.current[mod.id]
+    // Only a stream that reached `event: done` succeeds, so cut-off summaries are never cached
+    if (result.ok) {
+      update(mod.id, { text: result.data.text, status: "done" })
+      cacheSummary({ mod_id: String(mod.id), title: mod.title, summary: result.data.text })
+    } else if (result.error.kind === "aborted") {
+      update(mod.id, { status: "stopped" })
+    } else {
+      console.error("Error fetching summary:", result.error)
+      update(mod.id, { status: "failed" })
+    }
+  }
+
+  // Shows a mod's summary, asking for it unless it is cached or already on its way
+  const open = (mod: Pick<ModResult, "id" | "title">) => {
+    setOpenModId(mod.id)
+    const current = summaryFor(mod.id)
+    if (current?.status !== "streaming" && current?.status !== "done") request(mod)
+  }
+
+  const stop = useCallback((modId: number) => controllers.current[modId]?.abort(), [])
+
+  const close = useCallback(() => setOpenModId(null), [])
+
+  useEffect(
+    () => () => {
+      Object.keys(controllers.current).forEach((modId) => controllers.current[Number(modId)].abort())
+    },
+    [],
+  )
+
+  return {
+    openSummary: openModId !== null ? summaryFor(openModId) : undefined,
+    summaryFor,
+    open,
+    stop,
+    close,
+  }
+}
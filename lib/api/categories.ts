@@ -0,0 +1,105 @@
+import type { ApiClient, RequestOptions } from "./client"
+import type { ApiResult } from "./errors"
+import type { ModResult, SortOrder } from "./schemas"
+
+export interface CategoryInfo {
+  name: string
+  // Unknown when the backend has no categories endpoint
+  count?: number
+}
+
+// CurseForge's Minecraft mod categories, listed when the backend cannot report its own
+export const KNOWN_CATEGORIES = [
+  "API and Library",
+  "Addons",
+  "Adventure and RPG",
+  "Armor, Tools, and Weapons",
+  "Automation",
+  "Biomes",
+  "Bug Fixes",
+  "Cosmetic",
+  "Dimensions",
+  "Education",
+  "Energy",
+  "Farming",
+  "Food",
+  "Genetics",
+  "Magic",
+  "Map and Information",
+  "Miscellaneous",
+  "Mobs",
+  "Ores and Resources",
+  "Player Transport",
+  "Processing",
+  "Redstone",
+  "Server Utility",
+  "Storage",
+  "Structures",
+  "Technology",
+  "Utility & QoL",
+  "World Gen",
+]
+
+export async function listCategories(client: ApiClient, init?: RequestOptions): Promise<ApiResult<CategoryInfo[]>> {
+  const result = await client.categories(init)
+  if (result.ok) return { ok: true, data: result.data.categories }
+  if (result.error.kind === "http" && result.error.status === 404) {
+    return { ok: true, data: KNOWN_CATEGORIES.map((name) => ({ name })) }
+  }
+  return result
+}
+
+export interface CategoryPageRequest {
+  // 1-based
+  page: number
+  pageSize: number
+  sort?: SortOrder
+}
+
+export interface CategoryPage {
+  mods: ModResult[]
+  total?: number
+  hasNextPage: boolean
+}
+
+// One page of the mods in `category`: an empty query with the category filter, so mods that never
+// mention the category's name are included. Backends that ignore the filter are narrowed down
+// here, at the cost of short pages and no total.
+export async function browseCategory(
+  client: ApiClient,
+  category: string,
+  { page, pageSize, sort }: CategoryPageRequest,
+  init?: RequestOptions,
+): Promise<ApiResult<CategoryPage>> {
+  const offset = (page - 1) * pageSize
+  const search = await client.search(
+    {
+      q: "",
+      size: pageSize,
+      offset,
+      categories: { include: [category], exclude: [], mode: "or" },
+      sort,
+    },
+    init,
+  )
+  if (!search.ok) return search
+
+  const { results, total, filters } = search.data
+  if (filters !== undefined) {
+    return {
+      ok: true,
+      data: {
+        mods: results,
+        total,
+        hasNextPage: total !== undefined ? offset + results.length < total : results.length === pageSize,
+      },
+    }
+  }
+  return {
+    ok: true,
+    data: {
+      mods: results.filter((mod) => mod.categories.indexOf(category) !== -1),
+      hasNextPage: results.length === pageSize,
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+
+import { createApiClient } from "@/lib/api"
+import { MOCK_BACKEND_URL } from "@/lib/mock/backend"
+
+function failingClient(error: Error) {
+  return createApiClient({ baseUrl: MOCK_BACKEND_URL, fetch: () => Promise.reject(error) })
+}
+
+describe("createApiClient", () => {
+  it("reports aborts and timeouts as aborted", async () => {
+    const aborted = await failingClient(new DOMException("Aborted", "AbortError")).summary(1)
+    const timedOut = await failingClient(new DOMException("Timed out", "TimeoutError")).summary(1)
+    expect(!aborted.ok && aborted.error.kind).toBe("aborted")
+    expect(!timedOut.ok && timedOut.error.kind).toBe("aborted")
+  })
+
+  it("reports other fetch failures as network errors", async () => {
+    const result = await failingClient(new TypeError("fetch failed")).summary(1)
+    expect(result).toEqual({ ok: false, error: { kind: "network", message: "fetch failed" } })
+  })
+})
@@ -0,0 +1,188 @@
+import type { z } from "zod"
+
+import { apiError, isAbortError, type ApiResult } from "./errors"
+import {
+  autocompleteResponseSchema,
+  categoriesResponseSchema,
+  searchResponseSchema,
+  summaryResponseSchema,
+  type AutocompleteResponse,
+  type CategoriesResponse,
+  type CategoryFilter,
+  type SortOrder,
+  type SearchResponse,
+  type SummaryResponse,
+} from "./schemas"
+
+export const AUTOCOMPLETE_MODES = ["sayt", "suggester"] as const
+
+export type AutocompleteMode = (typeof AUTOCOMPLETE_MODES)[number]
+
+export interface SearchRequest {
+  q: string
+  size: number
+  offset: number
+  categories?: CategoryFilter
+  // Backend default is relevance
+  sort?: SortOrder
+  // Only mods this author worked on
+  author?: string
+}
+
+export interface AutocompleteRequest {
+  q: string
+  size: number
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  headers?: Record<string, string>
+}
+
+export interface ApiClientOptions {
+  baseUrl: string
+  // The Python backend routes end with a slash, the Next.js proxy routes do not
+  trailingSlash?: boolean
+  fetch?: typeof fetch
+}
+
+// Arrays are sent as repeated parameters
+type QueryParams = Record<string, string | number | string[]>
+
+function buildUrl(baseUrl: string, path: string, params?: QueryParams): string {
+  const url = `${baseUrl.replace(/\/+$/, "")}${path}`
+  if (!params) return url
+
+  const search = new URLSearchParams()
+  Object.keys(params).forEach((key) => {
+    const value = params[key]
+    if (Array.isArray(value)) value.forEach((item) => search.append(key, item))
+    else search.set(key, String(value))
+  })
+  return `${url}?${search.toString()}`
+}
+
+// Error message sent by the app/api proxy, if the body has one
+async function readErrorMessage(response: Response): Promise<string | undefined> {
+  try {
+    const body = await response.json()
+    return typeof body?.error?.message === "string" ? body.error.message : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function hasCategoryFilter(filter: CategoryFilter): boolean {
+  return filter.include.length > 0 || filter.exclude.length > 0
+}
+
+export function createApiClient(options: ApiClientOptions) {
+  const { baseUrl, trailingSlash = true } = options
+  const fetcher = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init))
+
+  // Fetch with network, abort and HTTP status failures turned into ApiErrors
+  async function send(
+    path: string,
+    params: QueryParams | undefined,
+    init?: RequestOptions,
+  ): Promise<ApiResult<Response>> {
+    let response: Response
+    try {
+      response = await fetcher(buildUrl(baseUrl, trailingSlash ? `${path}/` : path, params), {
+        signal: init?.signal,
+        headers: init?.headers,
+      })
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { ok: false, error: apiError("aborted", "Request was aborted") }
+      }
+      return { ok: false, error: apiError("network", error instanceof Error ? error.message : "Network error") }
+    }
+
+    if (!response.ok) {
+      const message = (await readErrorMessage(response)) ?? `Request failed with status ${response.status}`
+      return { ok: false, error: apiError("http", message, response.status) }
+    }
+    return { ok: true, data: response }
+  }
+
+  async function request<T>(
+    path: string,
+    params: QueryParams | undefined,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    init?: RequestOptions,
+  ): Promise<ApiResult<T>> {
+    const sent = await send(path, params, init)
+    if (!sent.ok) return sent
+    const response = sent.data
+
+    let body: unknown
+    try {
+      body = await response.json()
+    } catch (error) {
+      if (isAbortError(error)) {
+        return { ok: false, error: apiError("aborted", "Request was aborted") }
+      }
+      return { ok: false, error: apiError("invalid_response", "Response body is not valid JSON") }
+    }
+
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+      return { ok: false, error: apiError("invalid_response", parsed.error.message) }
+    }
+    return { ok: true, data: parsed.data }
+  }
+
+  return {
+    search(params: SearchRequest, init?: RequestOptions): Promise<ApiResult<SearchResponse>> {
+      const query: QueryParams = { q: params.q, size: params.size, offset: params.offset }
+      if (params.categories && hasCategoryFilter(params.categories)) {
+        query.category = params.categories.include
+        query.exclude_category = params.categories.exclude
+        query.category_mode = params.categories.mode
+      }
+      if (params.sort && params.sort !== "relevance") {
+        query.sort = params.sort
+      }
+      if (params.author) {
+        query.author = params.author
+      }
+      return request("/search", query, searchResponseSchema, init)
+    },
+
+    autocomplete(
+      mode: AutocompleteMode,
+      params: AutocompleteRequest,
+      init?: RequestOptions,
+    ): Promise<ApiResult<AutocompleteResponse>> {
+      return request(`/autocomplete/${mode}`, { q: params.q, size: params.size }, autocompleteResponseSchema, init)
+    },
+
+    summary(modId: number, init?: RequestOptions): Promise<ApiResult<SummaryResponse>> {
+      return request(`/summary/${modId}`, undefined, summaryResponseSchema, init)
+    },
+
+    // Server-sent events with the summary as the model writes it, see streamSummary. Backends
+    // without streaming answer 404.
+    async summaryStream(modId: number, init?: RequestOptions): Promise<ApiResult<ReadableStream<Uint8Array>>> {
+      const sent = await send(`/summary/${modId}/stream`, undefined, {
+        ...init,
+        headers: { ...init?.headers, Accept: "text/event-stream" },
+      })
+      if (!sent.ok) return sent
+      const response = sent.data
+      if ((response.headers.get("Content-Type") ?? "").indexOf("text/event-stream") !== 0 || !response.body) {
+        await response.body?.cancel()
+        return { ok: false, error: apiError("invalid_response", "Summary stream is not an event stream") }
+      }
+      return { ok: true, data: response.body }
+    },
+
+    // Not every backend has this endpoint, see listCategories for the fallback
+    categories(init?: RequestOptions): Promise<ApiResult<CategoriesResponse>> {
+      return request("/categories", undefined, categoriesResponseSchema, init)
+    },
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
@@ -0,0 +1,14 @@
+const DEFAULT_BACKEND_URL = "http://localhost:8001"
+
+// Same-origin prefix of the route handlers in app/api that proxy the backend
+export const PROXY_BASE_PATH = "/api"
+
+// Base URL of the search backend, only read on the server. Set SEARCH_API_URL to point at staging or prod.
+export function getBackendUrl(): string {
+  return process.env.SEARCH_API_URL || DEFAULT_BACKEND_URL
+}
+
+// SEARCH_API_MOCK=true serves every request from the in-process fixture backend in lib/mock
+export function isMockBackendEnabled(): boolean {
+  return process.env.SEARCH_API_MOCK === "true" || process.env.SEARCH_API_MOCK === "1"
+}
@@ -0,0 +1,19 @@
+export type ApiErrorKind = "network" | "http" | "invalid_response" | "aborted"
+
+export interface ApiError {
+  kind: ApiErrorKind
+  message: string
+  // Only set for "http" errors
+  status?: number
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError }
+
+export function apiError(kind: ApiErrorKind, message: string, status?: number): ApiError {
+  return status === undefined ? { kind, message } : { kind, message, status }
+}
+
+// AbortSignal.timeout() rejects with a TimeoutError rather than an AbortError
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")
+}
@@ -0,0 +1,12 @@
+import { createApiClient } from "./client"
+import { PROXY_BASE_PATH } from "./config"
+
+export * from "./categories"
+export * from "./client"
+export * from "./errors"
+export * from "./mods"
+export * from "./schemas"
+export * from "./summary-stream"
+
+// Browser client, goes through the same-origin proxy in app/api
+export const apiClient = createApiClient({ baseUrl: PROXY_BASE_PATH, trailingSlash: false })
@@ -0,0 +1,96 @@
+import type { ApiClient, RequestOptions, SearchRequest } from "./client"
+import { apiError, type ApiResult } from "./errors"
+import type { ModResult } from "./schemas"
+
+// The search index has no lookup by id, so the mod is found among the hits for its title, or for
+// the id itself when the title is not known
+export async function lookupMod(
+  client: ApiClient,
+  id: number,
+  title: string,
+  init?: RequestOptions,
+): Promise<ApiResult<ModResult>> {
+  const search = await client.search({ q: title || String(id), size: 20, offset: 0 }, init)
+  if (!search.ok) return search
+
+  const found = search.data.results.find((result) => result.id === id)
+  if (!found) {
+    return { ok: false, error: apiError("http", `Mod ${id} is not in the search index`, 404) }
+  }
+  return { ok: true, data: found }
+}
+
+// Current data for a mod already seen, found again by searching its last known title. Undefined
+// when the mod was renamed or left the index.
+export async function refreshMod(
+  client: ApiClient,
+  mod: ModResult,
+  init?: RequestOptions,
+): Promise<ApiResult<ModResult | undefined>> {
+  const search = await client.search({ q: mod.title, size: 20, offset: 0 }, init)
+  if (!search.ok) return search
+  return { ok: true, data: search.data.results.find((result) => result.id === mod.id) }
+}
+
+// Mods sharing categories with `mod`, most relevant first
+export async function findRelatedMods(
+  client: ApiClient,
+  mod: ModResult,
+  limit: number,
+  init?: RequestOptions,
+): Promise<ApiResult<ModResult[]>> {
+  const search = await client.search({ q: mod.categories.join(" "), size: limit + 1, offset: 0 }, init)
+  if (!search.ok) return search
+  return { ok: true, data: search.data.results.filter((result) => result.id !== mod.id).slice(0, limit) }
+}
+
+const AUTHOR_SEARCH_SIZE = 100
+
+export function isAuthorOf(mod: ModResult, author: string): boolean {
+  return mod.authors.some((name) => name.toLowerCase() === author.toLowerCase())
+}
+
+// Every indexed mod `author` worked on, most popular first. The search is narrowed again here
+// because backends without the `author` parameter also return mods that only mention the name.
+export async function findModsByAuthor(
+  client: ApiClient,
+  author: string,
+  init?: RequestOptions,
+): Promise<ApiResult<ModResult[]>> {
+  const search = await client.search(
+    { q: author, size: AUTHOR_SEARCH_SIZE, offset: 0, sort: "popularity", author },
+    init,
+  )
+  if (!search.ok) return search
+  const mods = search.data.results
+    .filter((mod) => isAuthorOf(mod, author))
+    .sort((a, b) => a.popularityRank - b.popularityRank)
+  return { ok: true, data: mods }
+}
+
+// Every hit for a search up to `limit` mods, fetched page by page. `onProgress` hears the running
+// count after each page, with the total when the backend reports one.
+export async function searchAllResults(
+  client: ApiClient,
+  request: Omit<SearchRequest, "offset">,
+  limit: number,
+  onProgress?: (loaded: number, total?: number) => void,
+  init?: RequestOptions,
+): Promise<ApiResult<ModResult[]>> {
+  let mods: ModResult[] = []
+  const seen: Record<number, true> = {}
+  for (let offset = 0; offset < limit; offset += request.size) {
+    const search = await client.search({ ...request, offset }, init)
+    if (!search.ok) return search
+
+    const { results, total } = search.data
+    // Pages can overlap when the index shifts in between
+    mods = mods.concat(results.filter((mod) => !seen[mod.id]))
+    results.forEach((mod) => {
+      seen[mod.id] = true
+    })
+    onProgress?.(mods.length, total)
+    if (results.length < request.size || (total !== undefined && offset + request.size >= total)) break
+  }
+  return { ok: true, data: mods.slice(0, limit) }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+
+import { apiError, type ApiError, type ApiResult } from "./errors"
+
+export const REQUEST_ID_HEADER = "x-request-id"
+
+export const CACHE_CONTROL = {
+  search: "public, max-age=30, stale-while-revalidate=120",
+  autocomplete: "public, max-age=60, stale-while-revalidate=300",
+  summary: "public, max-age=3600, stale-while-revalidate=86400",
+  categories: "public, max-age=3600, stale-while-revalidate=86400",
+  none: "no-store",
+}
+
+// Upstream timeouts; summaries are generated by an LLM and take much longer
+export const UPSTREAM_TIMEOUT_MS = {
+  default: 15_000,
+  summary: 60_000,
+}
+
+export function getRequestId(request: Request): string {
+  return request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID()
+}
+
+export function searchParamsToObject(params: URLSearchParams): Record<string, string> {
+  const object: Record<string, string> = {}
+  params.forEach((value, key) => {
+    object[key] = value
+  })
+  return object
+}
+
+function errorStatus(error: ApiError): number {
+  switch (error.kind) {
+    case "http":
+      // Client errors are passed through, backend failures become a bad gateway
+      return error.status !== undefined && error.status < 500 ? error.status : 502
+    case "aborted":
+      return 504
+    default:
+      return 502
+  }
+}
+
+export function errorResponse(error: ApiError, requestId: string, status = errorStatus(error)) {
+  return NextResponse.json(
+    { error: { kind: error.kind, message: error.message }, requestId },
+    { status, headers: { "Cache-Control": CACHE_CONTROL.none, [REQUEST_ID_HEADER]: requestId } },
+  )
+}
+
+export function badRequest(message: string, requestId: string) {
+  return errorResponse(apiError("http", message, 400), requestId, 400)
+}
+
+export function proxyResult<T>(result: ApiResult<T>, requestId: string, cacheControl: string) {
+  if (!result.ok) {
+    console.error(`[${requestId}] Upstream request failed:`, result.error)
+    return errorResponse(result.error, requestId)
+  }
+  return NextResponse.json(result.data, {
+    headers: { "Cache-Control": cacheControl, [REQUEST_ID_HEADER]: requestId },
+  })
+}
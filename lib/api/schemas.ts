@@ -0,0 +1,64 @@
+import { z } from "zod"
+
+// Payload shapes returned by the search backend
+
+export const modResultSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  authors: z.array(z.string()),
+  categories: z.array(z.string()),
+  description: z.string(),
+  popularityRank: z.number(),
+  websiteUrl: z.string(),
+})
+
+export const CATEGORY_MODES = ["or", "and"] as const
+
+export const categoryFilterSchema = z.object({
+  include: z.array(z.string()),
+  exclude: z.array(z.string()),
+  // Whether a mod needs any ("or") or all ("and") of the included categories
+  mode: z.enum(CATEGORY_MODES),
+})
+
+export const SORT_ORDERS = ["relevance", "popularity", "title", "author"] as const
+
+export const searchResponseSchema = z.object({
+  query: z.string(),
+  results: z.array(modResultSchema),
+  // Total number of hits, when the backend reports it
+  total: z.number().int().nonnegative().optional(),
+  // Echo of the category filter the backend applied; absent when it does not support filtering
+  filters: categoryFilterSchema.optional(),
+})
+
+export const autocompleteResponseSchema = z.object({
+  query: z.string(),
+  suggestions: z.array(z.string()),
+})
+
+export const summaryResponseSchema = z.object({
+  // The backend is not consistent about sending the id as a string or a number
+  mod_id: z.union([z.string(), z.number()]).transform(String),
+  title: z.string(),
+  summary: z.string(),
+})
+
+export const categoriesResponseSchema = z.object({
+  categories: z.array(
+    z.object({
+      name: z.string(),
+      // Number of indexed mods in the category
+      count: z.number().int().nonnegative(),
+    }),
+  ),
+})
+
+export type ModResult = z.infer<typeof modResultSchema>
+export type CategoryMode = (typeof CATEGORY_MODES)[number]
+export type CategoryFilter = z.infer<typeof categoryFilterSchema>
+export type SortOrder = (typeof SORT_ORDERS)[number]
+export type SearchResponse = z.infer<typeof searchResponseSchema>
+export type AutocompleteResponse = z.infer<typeof autocompleteResponseSchema>
+export type SummaryResponse = z.infer<typeof summaryResponseSchema>
+export type CategoriesResponse = z.infer<typeof categoriesResponseSchema>
@@ -0,0 +1,8 @@
+import { MOCK_BACKEND_URL, mockFetch } from "@/lib/mock/backend"
+import { createApiClient } from "./client"
+import { getBackendUrl, isMockBackendEnabled } from "./config"
+
+// Talks to the search backend directly. Only use from route handlers and server components.
+export const backendClient = isMockBackendEnabled()
+  ? createApiClient({ baseUrl: MOCK_BACKEND_URL, fetch: mockFetch })
+  : createApiClient({ baseUrl: getBackendUrl() })
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+
+import { createApiClient, readServerSentEvents, streamSummary, type ServerSentEvent } from "@/lib/api"
+import { MOCK_BACKEND_URL, mockFetch } from "@/lib/mock/backend"
+
+// A stream that hands out the chunks as they are, so events can be split anywhere
+function chunked(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+}
+
+async function readAll(chunks: string[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = []
+  await readServerSentEvents(chunked(chunks), (event) => events.push(event))
+  return events
+}
+
+// Answers the stream endpoint with `body`, and the one-shot endpoint with a fixed summary
+function streamingClient(body: string) {
+  return createApiClient({
+    baseUrl: MOCK_BACKEND_URL,
+    fetch: async (input) =>
+      String(input).indexOf("/stream/") !== -1
+        ? new Response(chunked([body]), { headers: { "Content-Type": "text/event-stream" } })
+        : Response.json({ mod_id: 1, title: "Mod 1", summary: "One-shot summary" }),
+  })
+}
+
+describe("readServerSentEvents", () => {
+  it("reads events split across chunks", async () => {
+    expect(await readAll(['data: {"tok', 'en": "a"}\n', "\ndata: b\r\n\r\nevent: done\n", "data: {}\n\n"])).toEqual([
+      { event: "message", data: '{"token": "a"}' },
+      { event: "message", data: "b" },
+      { event: "done", data: "{}" },
+    ])
+  })
+
+  it("skips comments and joins multi-line data", async () => {
+    expect(await readAll([": keep-alive\n\ndata: one\ndata: two\n\n"])).toEqual([{ event: "message", data: "one\ntwo" }])
+  })
+
+  it("hands on an event the stream ends in without a blank line", async () => {
+    expect(await readAll(["event: done"])).toEqual([{ event: "done", data: "" }])
+  })
+})
+
+describe("streamSummary", () => {
+  it("reports the text as it grows", async () => {
+    const texts: string[] = []
+    const client = streamingClient('data: {"token": "Adds "}\n\ndata: {"token": "pipes"}\n\nevent: done\ndata: {}\n\n')
+    const result = await streamSummary(client, 1, (text) => texts.push(text))
+    expect(texts).toEqual(["Adds ", "Adds pipes"])
+    expect(result).toEqual({ ok: true, data: { text: "Adds pipes", streamed: true } })
+  })
+
+  it("fails when the stream ends before `event: done`", async () => {
+    const result = await streamSummary(streamingClient('data: {"token": "Adds "}\n\n'), 1, () => {})
+    expect(!result.ok && result.error.kind).toBe("network")
+  })
+
+  it("fails with the message of an error event", async () => {
+    const client = streamingClient('data: {"token": "Adds "}\n\nevent: error\ndata: {"message": "Model overloaded"}\n\n')
+    const result = await streamSummary(client, 1, () => {})
+    expect(result).toEqual({ ok: false, error: { kind: "http", message: "Model overloaded", status: 502 } })
+  })
+
+  it("falls back to the one-shot summary when the backend cannot stream", async () => {
+    const client = createApiClient({
+      baseUrl: MOCK_BACKEND_URL,
+      fetch: async (input) =>
+        String(input).indexOf("/stream/") !== -1
+          ? new Response(null, { status: 404 })
+          : Response.json({ mod_id: 1, title: "Mod 1", summary: "One-shot summary" }),
+    })
+    const result = await streamSummary(client, 1, () => {})
+    expect(result).toEqual({ ok: true, data: { text: "One-shot summary", streamed: false } })
+  })
+
+  it("streams from the mock backend", async () => {
+    const client = createApiClient({ baseUrl: MOCK_BACKEND_URL, fetch: mockFetch })
+    const result = await streamSummary(client, 253972, () => {})
+    expect(result.ok && result.data.streamed).toBe(true)
+  })
+})
@@ -0,0 +1,121 @@
+import { z } from "zod"
+
+import type { ApiClient, RequestOptions } from "./client"
+import { apiError, isAbortError, type ApiError, type ApiResult } from "./errors"
+
+// Event stream from `/summary/{id}/stream/`: `data: {"token": "..."}` per chunk of text, then
+// `event: done`. Failures midway arrive as `event: error` with `data: {"message": "..."}`.
+const tokenEventSchema = z.object({ token: z.string() })
+const errorEventSchema = z.object({ message: z.string() })
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+function parseEvent(block: string): ServerSentEvent | undefined {
+  let event = "message"
+  const data: string[] = []
+  block.split(/\r?\n/).forEach((line) => {
+    // Lines starting with a colon are comments, used as keep-alives
+    if (!line || line[0] === ":") return
+    const colon = line.indexOf(":")
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "")
+    if (field === "event") event = value
+    else if (field === "data") data.push(value)
+  })
+  return data.length > 0 || event !== "message" ? { event, data: data.join("\n") } : undefined
+}
+
+// Hands each event to `onEvent` as it arrives, resolves when the stream ends
+export async function readServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += value
+    const blocks = buffer.split(/\r?\n\r?\n/)
+    buffer = blocks.pop() ?? ""
+    blocks.forEach((block) => {
+      const event = parseEvent(block)
+      if (event) onEvent(event)
+    })
+  }
+  const last = parseEvent(buffer)
+  if (last) onEvent(last)
+}
+
+export interface StreamedSummary {
+  text: string
+  // False when the backend could not stream and the one-shot summary was used
+  streamed: boolean
+}
+
+// Statuses meaning the backend has no streaming endpoint, as opposed to the mod not existing
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 501]
+
+function isStreamUnsupported(error: ApiError): boolean {
+  return (
+    error.kind === "invalid_response" ||
+    (error.kind === "http" && STREAM_UNSUPPORTED_STATUSES.indexOf(error.status ?? 0) !== -1)
+  )
+}
+
+// The summary of a mod, with `onText` called with the text so far as it grows. Falls back to the
+// one-shot summary endpoint when streaming is not available.
+export async function streamSummary(
+  client: ApiClient,
+  modId: number,
+  onText: (text: string) => void,
+  init?: RequestOptions,
+): Promise<ApiResult<StreamedSummary>> {
+  const stream = await client.summaryStream(modId, init)
+  if (!stream.ok) {
+    if (!isStreamUnsupported(stream.error)) return stream
+
+    const summary = await client.summary(modId, init)
+    if (!summary.ok) return summary
+    onText(summary.data.summary)
+    return { ok: true, data: { text: summary.data.summary, streamed: false } }
+  }
+
+  let text = ""
+  let done = false
+  let failure: ApiError | undefined
+  try {
+    await readServerSentEvents(stream.data, ({ event, data }) => {
+      if (failure) return
+      if (event === "message") {
+        const token = tokenEventSchema.safeParse(JSON.parse(data))
+        if (!token.success) {
+          failure = apiError("invalid_response", token.error.message)
+          return
+        }
+        text += token.data.token
+        onText(text)
+      } else if (event === "done") {
+        done = true
+      } else if (event === "error") {
+        const error = errorEventSchema.safeParse(JSON.parse(data))
+        failure = apiError("http", error.success ? error.data.message : "Summary generation failed", 502)
+      }
+    })
+  } catch (error) {
+    if (isAbortError(error)) {
+      return { ok: false, error: apiError("aborted", "Request was aborted") }
+    }
+    if (error instanceof SyntaxError) {
+      return { ok: false, error: apiError("invalid_response", "Summary stream event is not valid JSON") }
+    }
+    return { ok: false, error: apiError("network", error instanceof Error ? error.message : "Network error") }
+  }
+  if (failure) return { ok: false, error: failure }
+  // A stream cut off before `event: done` holds a partial summary
+  if (!done) return { ok: false, error: apiError("network", "Summary stream ended before it was done") }
+  return { ok: true, data: { text, streamed: true } }
+}
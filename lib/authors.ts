@@ -0,0 +1,22 @@
+import type { ModResult } from "@/lib/api"
+import { countCategories, type CategoryCount } from "@/lib/facets"
+
+export interface AuthorPortfolio {
+  modCount: number
+  categories: CategoryCount[]
+  // Most popular first
+  topMods: ModResult[]
+}
+
+// Expects mods sorted by popularity, as returned by findModsByAuthor
+export function summarizePortfolio(mods: ModResult[], topCount: number): AuthorPortfolio {
+  return {
+    modCount: mods.length,
+    categories: countCategories(mods),
+    topMods: mods.slice(0, topCount),
+  }
+}
+
+export function authorHref(author: string): string {
+  return `/authors/${encodeURIComponent(author)}`
+}
@@ -0,0 +1,14 @@
+import { slugify } from "@/lib/utils"
+
+// URL-friendly category names, e.g. "Armor, Tools, and Weapons" -> "armor-tools-and-weapons"
+export function categorySlug(category: string): string {
+  return slugify(category)
+}
+
+export function categoryHref(category: string): string {
+  return `/categories/${categorySlug(category)}`
+}
+
+export function findCategoryBySlug<T extends { name: string }>(categories: T[], slug: string): T | undefined {
+  return categories.find((category) => categorySlug(category.name) === slug)
+}
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import { collectionsStore, exportCollection, findCollection, importCollection } from "@/lib/collections"
+import { fakeCollection, fakeMod } from "@/lib/mock/fixtures"
+
+afterEach(() => collectionsStore.write(() => []))
+
+describe("exportCollection and importCollection", () => {
+  it("imports an exported collection as a new one", () => {
+    const original = fakeCollection("Tech", [fakeMod(1), fakeMod(2)])
+    original.items[1].note = "for the pipes"
+
+    const imported = importCollection(exportCollection(original))
+    expect(imported.ok).toBe(true)
+    if (!imported.ok) return
+    expect(imported.id).not.toBe(original.id)
+    const copy = findCollection(collectionsStore.read(), imported.id)
+    expect(copy?.name).toBe("Tech")
+    expect(copy?.items).toEqual(original.items)
+  })
+
+  it("leaves out the browser-only id and date", () => {
+    const file = JSON.parse(exportCollection(fakeCollection("Tech", [])))
+    expect(Object.keys(file).sort()).toEqual(["format", "items", "name", "version"])
+  })
+
+  it("rejects files that are not JSON or not a collection", () => {
+    expect(importCollection("{")).toEqual({ ok: false, message: "The file is not valid JSON." })
+    expect(importCollection(JSON.stringify({ name: "Tech", items: [] }))).toEqual({
+      ok: false,
+      message: "The file is not a collection exported from this site.",
+    })
+    expect(collectionsStore.read()).toEqual([])
+  })
+})
@@ -0,0 +1,124 @@
+import { z } from "zod"
+
+import { modResultSchema, type ModResult } from "@/lib/api/schemas"
+import { createLocalStore } from "@/lib/local-store"
+
+const collectionItemSchema = z.object({
+  mod: modResultSchema,
+  note: z.string(),
+})
+
+const collectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+  // In pack order, which the user sets by dragging
+  items: z.array(collectionItemSchema),
+})
+
+export type CollectionItem = z.infer<typeof collectionItemSchema>
+export type Collection = z.infer<typeof collectionSchema>
+
+const NO_COLLECTIONS: Collection[] = []
+
+// Oldest first
+export const collectionsStore = createLocalStore("mods-search:collections", z.array(collectionSchema), NO_COLLECTIONS)
+
+// Local ids only have to be unique in this browser
+function newCollectionId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function findCollection(collections: Collection[], id: string): Collection | undefined {
+  return collections.find((collection) => collection.id === id)
+}
+
+export function hasMod(collection: Collection, modId: number): boolean {
+  return collection.items.some((item) => item.mod.id === modId)
+}
+
+function updateCollection(id: string, update: (collection: Collection) => Collection) {
+  collectionsStore.write((collections) =>
+    collections.map((collection) => (collection.id === id ? update(collection) : collection)),
+  )
+}
+
+export function createCollection(name: string, items: CollectionItem[] = []): string {
+  const id = newCollectionId()
+  collectionsStore.write((collections) => collections.concat({ id, name: name.trim(), createdAt: Date.now(), items }))
+  return id
+}
+
+export function renameCollection(id: string, name: string) {
+  updateCollection(id, (collection) => ({ ...collection, name: name.trim() }))
+}
+
+export function deleteCollection(id: string) {
+  collectionsStore.write((collections) => collections.filter((collection) => collection.id !== id))
+}
+
+export function addToCollection(id: string, mod: ModResult) {
+  updateCollection(id, (collection) =>
+    hasMod(collection, mod.id) ? collection : { ...collection, items: collection.items.concat({ mod, note: "" }) },
+  )
+}
+
+export function removeFromCollection(id: string, modId: number) {
+  updateCollection(id, (collection) => ({
+    ...collection,
+    items: collection.items.filter((item) => item.mod.id !== modId),
+  }))
+}
+
+export function moveCollectionItem(id: string, from: number, to: number) {
+  updateCollection(id, (collection) => {
+    const items = collection.items.slice()
+    const moved = items.splice(from, 1)
+    items.splice(to, 0, ...moved)
+    return { ...collection, items }
+  })
+}
+
+export function setCollectionNote(id: string, modId: number, note: string) {
+  updateCollection(id, (collection) => ({
+    ...collection,
+    items: collection.items.map((item) => (item.mod.id === modId ? { ...item, note } : item)),
+  }))
+}
+
+// Shareable file format, without the ids and dates that only mean something in this browser
+const COLLECTION_FILE_FORMAT = "mods-search-collection"
+
+const collectionFileSchema = z.object({
+  format: z.literal(COLLECTION_FILE_FORMAT),
+  version: z.literal(1),
+  name: z.string().min(1),
+  items: z.array(collectionItemSchema),
+})
+
+export function exportCollection(collection: Collection): string {
+  const file: z.infer<typeof collectionFileSchema> = {
+    format: COLLECTION_FILE_FORMAT,
+    version: 1,
+    name: collection.name,
+    items: collection.items,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+export type CollectionImportResult = { ok: true; id: string } | { ok: false; message: string }
+
+// Always creates a new collection, so importing a teammate's copy never overwrites your own
+export function importCollection(json: string): CollectionImportResult {
+  let body: unknown
+  try {
+    body = JSON.parse(json)
+  } catch {
+    return { ok: false, message: "The file is not valid JSON." }
+  }
+  const parsed = collectionFileSchema.safeParse(body)
+  if (!parsed.success) {
+    return { ok: false, message: "The file is not a collection exported from this site." }
+  }
+  return { ok: true, id: createCollection(parsed.data.name, parsed.data.items) }
+}
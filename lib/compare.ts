@@ -0,0 +1,60 @@
+import { z } from "zod"
+
+import { modResultSchema, type ModResult } from "@/lib/api/schemas"
+import { createLocalStore } from "@/lib/local-store"
+
+export const MIN_COMPARED_MODS = 2
+export const MAX_COMPARED_MODS = 5
+
+const NOTHING_TO_COMPARE: ModResult[] = []
+
+// Mods ticked for comparison, in the order they were picked; kept across searches
+export const compareStore = createLocalStore("mods-search:compare", z.array(modResultSchema), NOTHING_TO_COMPARE)
+
+export function isCompared(mods: ModResult[], modId: number): boolean {
+  return mods.some((mod) => mod.id === modId)
+}
+
+// Adding is ignored once the tray is full
+export function toggleCompared(mod: ModResult) {
+  compareStore.write((mods) =>
+    isCompared(mods, mod.id)
+      ? mods.filter((compared) => compared.id !== mod.id)
+      : mods.length < MAX_COMPARED_MODS
+        ? mods.concat(mod)
+        : mods,
+  )
+}
+
+export function removeCompared(modId: number) {
+  compareStore.write((mods) => mods.filter((compared) => compared.id !== modId))
+}
+
+export function clearCompared() {
+  compareStore.write(() => NOTHING_TO_COMPARE)
+}
+
+export function compareHref(ids: number[]): string {
+  return `/compare?ids=${ids.join(",")}`
+}
+
+// `?ids=1,2,3`: unknown parts and repeats are dropped, and only the first five count
+export function parseCompareIds(value: string | string[] | undefined): number[] {
+  const ids: number[] = []
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "")
+  raw.split(",").forEach((part) => {
+    const id = Number(part)
+    if (Number.isInteger(id) && id > 0 && ids.indexOf(id) === -1) ids.push(id)
+  })
+  return ids.slice(0, MAX_COMPARED_MODS)
+}
+
+// Categories every compared mod has, the rest are what sets them apart
+export function sharedCategories(mods: ModResult[]): string[] {
+  if (mods.length === 0) return []
+  return mods[0].categories.filter((category) => mods.every((mod) => mod.categories.indexOf(category) !== -1))
+}
+
+export function valuesDiffer(values: string[]): boolean {
+  return values.some((value) => value !== values[0])
+}
@@ -0,0 +1,23 @@
+// Like Promise.all over `items.map(task)`, with at most `limit` tasks running at once
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index], index)
+    }
+  }
+
+  const workers: Promise<void>[] = []
+  for (let count = 0; count < Math.min(limit, items.length); count++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+  return results
+}
@@ -0,0 +1,20 @@
+// Saves `content` as a file through a temporary object URL
+export function downloadFile(filename: string, content: string | Blob, type: string) {
+  const url = URL.createObjectURL(typeof content === "string" ? new Blob([content], { type }) : content)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+// File-name friendly version of a search term
+export function exportFilename(query: string, extension: string): string {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return `mods-${slug || "results"}.${extension}`
+}
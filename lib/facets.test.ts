@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+
+import { countCategories, EMPTY_CATEGORY_FILTER, matchesCategoryFilter, toggleCategory } from "@/lib/facets"
+import { fakeMod } from "@/lib/mock/fixtures"
+
+const techMagic = fakeMod(1, { categories: ["Technology", "Magic"] })
+const tech = fakeMod(2, { categories: ["Technology"] })
+const food = fakeMod(3, { categories: ["Food"] })
+
+describe("matchesCategoryFilter", () => {
+  it("matches everything without a filter", () => {
+    expect(matchesCategoryFilter(food, EMPTY_CATEGORY_FILTER)).toBe(true)
+  })
+
+  it("needs any included category in `or` mode", () => {
+    const filter = { include: ["Magic", "Food"], exclude: [], mode: "or" as const }
+    expect([techMagic, tech, food].filter((candidate) => matchesCategoryFilter(candidate, filter))).toEqual([
+      techMagic,
+      food,
+    ])
+  })
+
+  it("needs every included category in `and` mode", () => {
+    const filter = { include: ["Technology", "Magic"], exclude: [], mode: "and" as const }
+    expect([techMagic, tech, food].filter((candidate) => matchesCategoryFilter(candidate, filter))).toEqual([
+      techMagic,
+    ])
+  })
+
+  it("rejects excluded categories even when an included one matches", () => {
+    const filter = { include: ["Technology"], exclude: ["Magic"], mode: "or" as const }
+    expect([techMagic, tech, food].filter((candidate) => matchesCategoryFilter(candidate, filter))).toEqual([tech])
+  })
+})
+
+describe("countCategories", () => {
+  it("counts mods per category, most common first and ties by name", () => {
+    expect(countCategories([techMagic, tech, food])).toEqual([
+      { category: "Technology", count: 2 },
+      { category: "Food", count: 1 },
+      { category: "Magic", count: 1 },
+    ])
+  })
+})
+
+describe("toggleCategory", () => {
+  it("includes, then unselects", () => {
+    const included = toggleCategory(EMPTY_CATEGORY_FILTER, "Magic", "include")
+    expect(included.include).toEqual(["Magic"])
+    expect(toggleCategory(included, "Magic", "include").include).toEqual([])
+  })
+
+  it("moves an included category to the excluded ones", () => {
+    const included = toggleCategory(EMPTY_CATEGORY_FILTER, "Magic", "include")
+    expect(toggleCategory(included, "Magic", "exclude")).toEqual({ include: [], exclude: ["Magic"], mode: "or" })
+  })
+})
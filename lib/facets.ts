@@ -0,0 +1,40 @@
+import type { CategoryFilter, ModResult } from "@/lib/api"
+
+export const EMPTY_CATEGORY_FILTER: CategoryFilter = { include: [], exclude: [], mode: "or" }
+
+export interface CategoryCount {
+  category: string
+  count: number
+}
+
+export function matchesCategoryFilter(mod: ModResult, filter: CategoryFilter): boolean {
+  if (filter.exclude.some((category) => mod.categories.indexOf(category) !== -1)) return false
+  if (filter.include.length === 0) return true
+
+  const hasCategory = (category: string) => mod.categories.indexOf(category) !== -1
+  return filter.mode === "and" ? filter.include.every(hasCategory) : filter.include.some(hasCategory)
+}
+
+// Categories of `mods` with the number of mods in each, most common first
+export function countCategories(mods: ModResult[]): CategoryCount[] {
+  const counts: Record<string, number> = {}
+  mods.forEach((mod) => {
+    mod.categories.forEach((category) => {
+      counts[category] = (counts[category] ?? 0) + 1
+    })
+  })
+  return Object.keys(counts)
+    .map((category) => ({ category, count: counts[category] }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category))
+}
+
+// Cycles a category through included, excluded and unselected
+export function toggleCategory(filter: CategoryFilter, category: string, as: "include" | "exclude"): CategoryFilter {
+  const include = filter.include.filter((value) => value !== category)
+  const exclude = filter.exclude.filter((value) => value !== category)
+  const wasSelected = (as === "include" ? filter.include : filter.exclude).indexOf(category) !== -1
+  if (!wasSelected) {
+    ;(as === "include" ? include : exclude).push(category)
+  }
+  return { ...filter, include, exclude }
+}
@@ -0,0 +1,66 @@
+import { z } from "zod"
+
+import { modResultSchema, type ModResult } from "@/lib/api/schemas"
+import { createLocalStore } from "@/lib/local-store"
+
+const favoriteSchema = z.object({
+  // Snapshot from when the mod was starred, refreshed whenever the favorites page is opened
+  mod: modResultSchema,
+  addedAt: z.number(),
+})
+
+export type Favorite = z.infer<typeof favoriteSchema>
+
+const NO_FAVORITES: Favorite[] = []
+
+// Most recently added first
+export const favoritesStore = createLocalStore("mods-search:favorites", z.array(favoriteSchema), NO_FAVORITES)
+
+export function isFavorite(favorites: Favorite[], modId: number): boolean {
+  return favorites.some((favorite) => favorite.mod.id === modId)
+}
+
+export function toggleFavorite(mod: ModResult) {
+  favoritesStore.write((favorites) =>
+    isFavorite(favorites, mod.id)
+      ? favorites.filter((favorite) => favorite.mod.id !== mod.id)
+      : [{ mod, addedAt: Date.now() }].concat(favorites),
+  )
+}
+
+// Replaces the snapshots of the given mods, keeping when they were added
+export function updateFavoriteSnapshots(mods: ModResult[]) {
+  const byId: Record<number, ModResult> = {}
+  mods.forEach((mod) => {
+    byId[mod.id] = mod
+  })
+  favoritesStore.write((favorites) =>
+    favorites.map((favorite) => (byId[favorite.mod.id] ? { ...favorite, mod: byId[favorite.mod.id] } : favorite)),
+  )
+}
+
+export const FAVORITE_SORTS = ["added", "popularity", "title", "author"] as const
+
+export type FavoriteSort = (typeof FAVORITE_SORTS)[number]
+
+const favoriteComparators: Record<FavoriteSort, (a: Favorite, b: Favorite) => number> = {
+  added: (a, b) => b.addedAt - a.addedAt,
+  popularity: (a, b) => a.mod.popularityRank - b.mod.popularityRank,
+  title: (a, b) => a.mod.title.localeCompare(b.mod.title),
+  author: (a, b) =>
+    (a.mod.authors[0] ?? "").localeCompare(b.mod.authors[0] ?? "") || a.mod.title.localeCompare(b.mod.title),
+}
+
+// Case-insensitive match on title, authors and description
+export function filterFavorites(favorites: Favorite[], text: string, category: string | null): Favorite[] {
+  const needle = text.trim().toLowerCase()
+  return favorites.filter(({ mod }) => {
+    if (category && mod.categories.indexOf(category) === -1) return false
+    if (!needle) return true
+    return [mod.title, mod.description].concat(mod.authors).some((field) => field.toLowerCase().indexOf(needle) !== -1)
+  })
+}
+
+export function sortFavorites(favorites: Favorite[], sort: FavoriteSort): Favorite[] {
+  return favorites.slice().sort(favoriteComparators[sort])
+}
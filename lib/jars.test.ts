@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { isJarFile, readJarMetadata } from "@/lib/jars"
+import { createZip, type ZipEntry } from "@/lib/zip"
+
+function jar(fileName: string, entries: ZipEntry[]): File {
+  return new File([createZip(entries)], fileName)
+}
+
+describe("readJarMetadata", () => {
+  it("reads fabric.mod.json", async () => {
+    const fabricMod = {
+      id: "sodium",
+      name: "Sodium",
+      version: "0.5.3",
+      authors: ["JellySquid", { name: "IMS" }],
+    }
+    const result = await readJarMetadata(
+      jar("sodium.jar", [{ path: "fabric.mod.json", content: JSON.stringify(fabricMod) }]),
+    )
+    expect(result).toEqual({
+      ok: true,
+      metadata: {
+        fileName: "sodium.jar",
+        loader: "fabric",
+        modId: "sodium",
+        name: "Sodium",
+        version: "0.5.3",
+        authors: ["JellySquid", "IMS"],
+      },
+    })
+  })
+
+  it("prefers quilt.mod.json over the fabric.mod.json shipped next to it", async () => {
+    const quiltMod = {
+      quilt_loader: {
+        id: "qsl",
+        version: "6.1.0",
+        metadata: { name: "Quilt Standard Libraries", contributors: { Glitch: "Owner" } },
+      },
+    }
+    const result = await readJarMetadata(
+      jar("qsl.jar", [
+        { path: "fabric.mod.json", content: JSON.stringify({ id: "qsl-fabric", version: "0" }) },
+        { path: "quilt.mod.json", content: JSON.stringify(quiltMod) },
+      ]),
+    )
+    expect(result.ok && result.metadata).toMatchObject({
+      loader: "quilt",
+      modId: "qsl",
+      name: "Quilt Standard Libraries",
+      version: "6.1.0",
+      authors: ["Glitch"],
+    })
+  })
+
+  it("reads mods.toml and fills the version in from the manifest", async () => {
+    const modsToml = [
+      'modLoader = "javafml"',
+      "",
+      "[[mods]]",
+      'modId = "jei"',
+      'version = "${file.jarVersion}"',
+      'displayName = "Just Enough Items"',
+      'authors = "mezz and Ranzer"',
+      'description = """',
+      "Item and recipe viewing mod",
+      '"""',
+      "",
+      "[[dependencies.jei]]",
+      'modId = "forge"',
+    ].join("\n")
+    const result = await readJarMetadata(
+      jar("jei-1.20.1-forge.jar", [
+        { path: "META-INF/mods.toml", content: modsToml },
+        { path: "META-INF/MANIFEST.MF", content: "Manifest-Version: 1.0\r\nImplementation-Version: 15.2.0.27\r\n" },
+      ]),
+    )
+    expect(result.ok && result.metadata).toMatchObject({
+      loader: "forge",
+      modId: "jei",
+      name: "Just Enough Items",
+      version: "15.2.0.27",
+      authors: ["mezz", "Ranzer"],
+    })
+  })
+
+  it("tells NeoForge jars apart by their metadata file", async () => {
+    const result = await readJarMetadata(
+      jar("create.jar", [
+        { path: "META-INF/neoforge.mods.toml", content: '[[mods]]\nmodId = "create"\nversion = "6.0.0"\n' },
+      ]),
+    )
+    expect(result.ok && result.metadata).toMatchObject({ loader: "neoforge", modId: "create", name: "create" })
+  })
+
+  it("fails for a jar without loader metadata", async () => {
+    const result = await readJarMetadata(jar("library.jar", [{ path: "com/example/Library.class", content: "" }]))
+    expect(result).toMatchObject({ ok: false, fileName: "library.jar" })
+  })
+
+  it("fails for a damaged jar", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const result = await readJarMetadata(new File(["not a zip"], "broken.jar"))
+    expect(result).toEqual({ ok: false, fileName: "broken.jar", message: "Could not read this jar, it may be damaged." })
+  })
+})
+
+describe("isJarFile", () => {
+  it("goes by the extension", () => {
+    expect(isJarFile(new File([], "Botania.JAR"))).toBe(true)
+    expect(isJarFile(new File([], "options.txt"))).toBe(false)
+  })
+})
@@ -0,0 +1,191 @@
+import { z } from "zod"
+
+import type { ModLoader } from "@/lib/modpack/loaders"
+import { openZip, type ZipReader } from "@/lib/zip"
+
+// What a mod jar says about itself, read from the loader's metadata file
+export interface JarMetadata {
+  fileName: string
+  loader: ModLoader
+  modId: string
+  name: string
+  version: string
+  authors: string[]
+}
+
+export type JarReadResult = { ok: true; metadata: JarMetadata } | { ok: false; fileName: string; message: string }
+
+const fabricModSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  version: z.string(),
+  authors: z.array(z.union([z.string(), z.object({ name: z.string() })])).optional(),
+})
+
+const quiltModSchema = z.object({
+  quilt_loader: z.object({
+    id: z.string(),
+    version: z.string(),
+    metadata: z
+      .object({
+        name: z.string().optional(),
+        // Name to role, e.g. { "Jane": "Owner" }
+        contributors: z.record(z.string(), z.string()).optional(),
+      })
+      .optional(),
+  }),
+})
+
+// Just enough TOML for mods.toml: the string keys of the first [[mods]] table
+function parseModsTable(toml: string): Record<string, string> | undefined {
+  const lines = toml.split(/\r?\n/)
+  let mod: Record<string, string> | undefined
+  let inMods = false
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (line.indexOf("[") === 0) {
+      if (mod) break
+      inMods = line === "[[mods]]"
+      if (inMods) mod = {}
+      continue
+    }
+    if (!inMods || !mod) continue
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*=\s*(.*)$/)
+    if (!pair) continue
+    const [, key, rest] = pair
+    if (rest.indexOf('"""') === 0 || rest.indexOf("'''") === 0) {
+      // Multi-line strings run until the closing quotes
+      const quote = rest.slice(0, 3)
+      let value = rest.slice(3)
+      while (value.indexOf(quote) === -1 && i + 1 < lines.length) value += "\n" + lines[++i]
+      mod[key] = value.slice(0, value.indexOf(quote)).trim()
+    } else {
+      const string = rest.match(/^"((?:[^"\\]|\\.)*)"|^'([^']*)'/)
+      if (string) mod[key] = string[1] !== undefined ? string[1].replace(/\\(.)/g, "$1") : string[2]
+    }
+  }
+  return mod
+}
+
+function splitAuthors(authors: string | undefined): string[] {
+  return (authors ?? "")
+    .split(/,|\band\b/)
+    .map((author) => author.trim())
+    .filter(Boolean)
+}
+
+// Forge fills `${file.jarVersion}` in from the manifest at load time
+async function manifestVersion(zip: ZipReader): Promise<string | undefined> {
+  const manifest = await zip.readText("META-INF/MANIFEST.MF")
+  return manifest?.match(/^Implementation-Version:\s*(.+)$/m)?.[1].trim()
+}
+
+async function readMetadata(zip: ZipReader, fileName: string): Promise<JarMetadata | undefined> {
+  // Quilt mods often ship a fabric.mod.json as well, so the quilt file wins
+  const quiltJson = await zip.readText("quilt.mod.json")
+  if (quiltJson !== undefined) {
+    const { quilt_loader: mod } = quiltModSchema.parse(JSON.parse(quiltJson))
+    return {
+      fileName,
+      loader: "quilt",
+      modId: mod.id,
+      name: mod.metadata?.name ?? mod.id,
+      version: mod.version,
+      authors: Object.keys(mod.metadata?.contributors ?? {}),
+    }
+  }
+
+  const fabricJson = await zip.readText("fabric.mod.json")
+  if (fabricJson !== undefined) {
+    const mod = fabricModSchema.parse(JSON.parse(fabricJson))
+    return {
+      fileName,
+      loader: "fabric",
+      modId: mod.id,
+      name: mod.name ?? mod.id,
+      version: mod.version,
+      authors: (mod.authors ?? []).map((author) => (typeof author === "string" ? author : author.name)),
+    }
+  }
+
+  const tomlFiles: [string, ModLoader][] = [
+    ["META-INF/neoforge.mods.toml", "neoforge"],
+    ["META-INF/mods.toml", "forge"],
+  ]
+  for (let i = 0; i < tomlFiles.length; i++) {
+    const [path, loader] = tomlFiles[i]
+    const toml = await zip.readText(path)
+    const mod = toml !== undefined ? parseModsTable(toml) : undefined
+    if (!mod || !mod.modId) continue
+    const version =
+      mod.version === "${file.jarVersion}" ? ((await manifestVersion(zip)) ?? mod.version) : (mod.version ?? "")
+    return {
+      fileName,
+      loader,
+      modId: mod.modId,
+      name: mod.displayName ?? mod.modId,
+      version,
+      authors: splitAuthors(mod.authors),
+    }
+  }
+  return undefined
+}
+
+export async function readJarMetadata(file: File): Promise<JarReadResult> {
+  try {
+    const metadata = await readMetadata(await openZip(file), file.name)
+    return metadata
+      ? { ok: true, metadata }
+      : { ok: false, fileName: file.name, message: "No fabric.mod.json, quilt.mod.json or mods.toml inside." }
+  } catch (error) {
+    console.error("Error reading jar:", file.name, error)
+    return { ok: false, fileName: file.name, message: "Could not read this jar, it may be damaged." }
+  }
+}
+
+export function isJarFile(file: File): boolean {
+  return /\.jar$/i.test(file.name)
+}
+
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  let entries: FileSystemEntry[] = []
+  // readEntries hands out a directory in batches, an empty one means it is done
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries)
+        } else {
+          entries = entries.concat(batch)
+          readBatch()
+        }
+      }, reject)
+    readBatch()
+  })
+}
+
+async function entryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))]
+  }
+  const children = await readDirectory(entry as FileSystemDirectoryEntry)
+  const files = await Promise.all(children.map(entryFiles))
+  return ([] as File[]).concat(...files)
+}
+
+// The jars in a drop, which may be a whole folder such as an instance's `mods` directory
+export async function droppedJarFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries: FileSystemEntry[] = []
+  for (let i = 0; i < dataTransfer.items.length; i++) {
+    const entry = dataTransfer.items[i].webkitGetAsEntry()
+    if (entry) entries.push(entry)
+  }
+  // Browsers without entry support still list the dropped files themselves
+  const files =
+    entries.length > 0
+      ? ([] as File[]).concat(...(await Promise.all(entries.map(entryFiles))))
+      : Array.prototype.slice.call(dataTransfer.files)
+  return files.filter(isJarFile)
+}
@@ -0,0 +1,69 @@
+import type { z } from "zod"
+
+// A JSON value in localStorage (or sessionStorage) that components can subscribe to, see
+// useLocalStore. Writes from other tabs come in through the storage event.
+export interface LocalStore<T> {
+  read(): T
+  write(update: (current: T) => T): void
+  subscribe(listener: () => void): () => void
+  // Used on the server, and when the stored value is missing or does not parse
+  fallback: T
+}
+
+export function createLocalStore<T>(
+  key: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  fallback: T,
+  // Session storage lasts as long as the tab and is not shared with other tabs
+  storage: "local" | "session" = "local",
+): LocalStore<T> {
+  // Parsed once and kept, so subscribers get the same snapshot until something changes
+  let cached: T | undefined
+  const listeners: (() => void)[] = []
+  const getStorage = () => (storage === "session" ? window.sessionStorage : window.localStorage)
+
+  function read(): T {
+    if (cached !== undefined) return cached
+    if (typeof window === "undefined") return fallback
+    try {
+      const parsed = schema.safeParse(JSON.parse(getStorage().getItem(key) ?? "null"))
+      cached = parsed.success ? parsed.data : fallback
+    } catch {
+      cached = fallback
+    }
+    return cached
+  }
+
+  function notify() {
+    listeners.slice().forEach((listener) => listener())
+  }
+
+  function write(update: (current: T) => T) {
+    cached = update(read())
+    try {
+      getStorage().setItem(key, JSON.stringify(cached))
+    } catch {
+      // Storage disabled or full, the in-memory copy still works for this tab
+    }
+    notify()
+  }
+
+  function handleStorage(event: StorageEvent) {
+    if (event.key === key || event.key === null) {
+      cached = undefined
+      notify()
+    }
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.push(listener)
+    if (listeners.length === 1) window.addEventListener("storage", handleStorage)
+    return () => {
+      const index = listeners.indexOf(listener)
+      if (index !== -1) listeners.splice(index, 1)
+      if (listeners.length === 0) window.removeEventListener("storage", handleStorage)
+    }
+  }
+
+  return { read, write, subscribe, fallback }
+}
@@ -0,0 +1,218 @@
+import { z } from "zod"
+
+import {
+  CATEGORY_MODES,
+  modResultSchema,
+  SORT_ORDERS,
+  type CategoryFilter,
+  type ModResult,
+  type SortOrder,
+} from "@/lib/api/schemas"
+import { matchesCategoryFilter } from "@/lib/facets"
+import fixture from "./mods.json"
+
+// In-process stand-in for the Python search service, backed by a fixture of real mod names.
+// It speaks the same HTTP surface so it can be injected anywhere a `fetch` is expected.
+
+export const MOCK_BACKEND_URL = "http://mock-backend.local"
+
+const mods: ModResult[] = z.array(modResultSchema).parse(fixture)
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(Boolean)
+}
+
+function scoreMod(mod: ModResult, query: string, tokens: string[]): number {
+  const title = mod.title.toLowerCase()
+  const titleTokens = tokenize(mod.title)
+  const authorTokens = mod.authors.map((author) => author.toLowerCase())
+  const categoryTokens = tokenize(mod.categories.join(" "))
+  const descriptionTokens = tokenize(mod.description)
+
+  let score = 0
+  if (title === query) score += 100
+  else if (title.indexOf(query) === 0) score += 50
+
+  tokens.forEach((token) => {
+    if (titleTokens.some((word) => word.indexOf(token) === 0)) score += 10
+    if (authorTokens.some((author) => author.indexOf(token) === 0)) score += 5
+    if (categoryTokens.some((word) => word.indexOf(token) === 0)) score += 4
+    if (descriptionTokens.indexOf(token) !== -1) score += 1
+  })
+  return score
+}
+
+interface ScoredMod {
+  mod: ModResult
+  score: number
+}
+
+const sortComparators: Record<SortOrder, (a: ScoredMod, b: ScoredMod) => number> = {
+  relevance: (a, b) => b.score - a.score || a.mod.popularityRank - b.mod.popularityRank,
+  popularity: (a, b) => a.mod.popularityRank - b.mod.popularityRank,
+  title: (a, b) => a.mod.title.localeCompare(b.mod.title),
+  author: (a, b) => a.mod.authors[0].localeCompare(b.mod.authors[0]) || a.mod.title.localeCompare(b.mod.title),
+}
+
+export function searchMods(
+  q: string,
+  size: number,
+  offset: number,
+  categories?: CategoryFilter,
+  sort: SortOrder = "relevance",
+  author?: string,
+): { results: ModResult[]; total: number } {
+  const query = q.trim().toLowerCase()
+  const tokens = tokenize(query)
+  // An empty query browses, which only makes sense within some categories
+  const browsing = tokens.length === 0
+  if (browsing && (!categories || categories.include.length === 0)) return { results: [], total: 0 }
+
+  const hits = mods
+    .filter((mod) => !categories || matchesCategoryFilter(mod, categories))
+    .filter((mod) => !author || mod.authors.some((name) => name.toLowerCase() === author.toLowerCase()))
+    .map((mod) => ({ mod, score: scoreMod(mod, query, tokens) }))
+    .filter(({ score }) => browsing || score > 0)
+    .sort(sortComparators[sort])
+  return {
+    results: hits.slice(offset, offset + size).map(({ mod }) => mod),
+    total: hits.length,
+  }
+}
+
+// "suggester" completes the whole title, "sayt" (search as you type) matches any word in it
+export function suggestTitles(mode: string, q: string, size: number): string[] {
+  const query = q.trim().toLowerCase()
+  const tokens = tokenize(query)
+  if (tokens.length === 0) return []
+
+  const matches = mods.filter((mod) => {
+    if (mode === "suggester") return mod.title.toLowerCase().indexOf(query) === 0
+    const titleTokens = tokenize(mod.title)
+    return tokens.every((token) => titleTokens.some((word) => word.indexOf(token) === 0))
+  })
+  return matches
+    .sort((a, b) => a.popularityRank - b.popularityRank)
+    .slice(0, size)
+    .map((mod) => mod.title)
+}
+
+export function findMod(id: number): ModResult | undefined {
+  return mods.find((mod) => mod.id === id)
+}
+
+export function countModsByCategory(): { name: string; count: number }[] {
+  const counts: Record<string, number> = {}
+  mods.forEach((mod) => {
+    mod.categories.forEach((category) => {
+      counts[category] = (counts[category] ?? 0) + 1
+    })
+  })
+  return Object.keys(counts)
+    .sort()
+    .map((name) => ({ name, count: counts[name] }))
+}
+
+export function summarizeMod(mod: ModResult): string {
+  return (
+    `${mod.title} is a ${mod.categories.join(", ")} mod by ${mod.authors.join(" and ")}. ` +
+    `${mod.description} It ranks #${mod.popularityRank} by downloads on CurseForge, ` +
+    `which makes it a ${mod.popularityRank <= 50 ? "staple of most modpacks" : "solid pick for themed packs"}.`
+  )
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+const TOKEN_DELAY_MS = 30
+
+// Sends the summary word by word as server-sent events, like a model writing it
+function summaryEventStream(text: string, signal?: AbortSignal | null): Response {
+  const encoder = new TextEncoder()
+  const tokens = text.match(/\S+\s*/g) ?? []
+  let index = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      return new Promise<void>((resolve) =>
+        setTimeout(() => {
+          if (signal?.aborted) {
+            controller.error(new DOMException("The operation was aborted.", "AbortError"))
+          } else if (index < tokens.length) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token: tokens[index++] })}\n\n`))
+          } else {
+            controller.enqueue(encoder.encode("event: done\ndata: {}\n\n"))
+            controller.close()
+          }
+          resolve()
+        }, TOKEN_DELAY_MS),
+      )
+    },
+  })
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+}
+
+function intParam(params: URLSearchParams, name: string, fallback: number): number {
+  const value = parseInt(params.get(name) ?? "", 10)
+  return isNaN(value) || value < 0 ? fallback : value
+}
+
+export async function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url)
+  const params = url.searchParams
+  const q = params.get("q") ?? ""
+
+  if (init?.signal?.aborted) {
+    throw new DOMException("The operation was aborted.", "AbortError")
+  }
+
+  if (url.pathname === "/search/") {
+    const mode = CATEGORY_MODES.find((value) => value === params.get("category_mode"))
+    const filters: CategoryFilter = {
+      include: params.getAll("category"),
+      exclude: params.getAll("exclude_category"),
+      mode: mode ?? "or",
+    }
+    const sort = SORT_ORDERS.find((value) => value === params.get("sort"))
+    const { results, total } = searchMods(
+      q,
+      intParam(params, "size", 10),
+      intParam(params, "offset", 0),
+      filters,
+      sort,
+      params.get("author") ?? undefined,
+    )
+    return json({ query: q, results, total, filters })
+  }
+
+  if (url.pathname === "/categories/") {
+    return json({ categories: countModsByCategory() })
+  }
+
+  const autocomplete = url.pathname.match(/^\/autocomplete\/(sayt|suggester)\/$/)
+  if (autocomplete) {
+    return json({ query: q, suggestions: suggestTitles(autocomplete[1], q, intParam(params, "size", 5)) })
+  }
+
+  const summaryStream = url.pathname.match(/^\/summary\/(\d+)\/stream\/$/)
+  if (summaryStream) {
+    const mod = findMod(Number(summaryStream[1]))
+    if (!mod) return json({ detail: "Mod not found" }, 404)
+    return summaryEventStream(summarizeMod(mod), init?.signal)
+  }
+
+  const summary = url.pathname.match(/^\/summary\/(\d+)\/$/)
+  if (summary) {
+    const mod = findMod(Number(summary[1]))
+    if (!mod) return json({ detail: "Mod not found" }, 404)
+    return json({ mod_id: String(mod.id), title: mod.title, summary: summarizeMod(mod) })
+  }
+
+  return json({ detail: "Not Found" }, 404)
+}
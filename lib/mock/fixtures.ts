@@ -0,0 +1,20 @@
+import type { ModResult } from "@/lib/api"
+import type { Collection } from "@/lib/collections"
+
+// A bare mod for tests, with only what the test cares about filled in
+export function fakeMod(id: number, overrides: Partial<ModResult> = {}): ModResult {
+  return {
+    id,
+    title: `Mod ${id}`,
+    authors: [],
+    categories: [],
+    description: "",
+    popularityRank: id,
+    websiteUrl: "",
+    ...overrides,
+  }
+}
+
+export function fakeCollection(name: string, mods: ModResult[]): Collection {
+  return { id: "test", name, createdAt: 0, items: mods.map((mod) => ({ mod, note: "" })) }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import { createApiClient } from "@/lib/api"
+import { MOCK_BACKEND_URL, mockFetch } from "@/lib/mock/backend"
+import { findMatchCandidates, HIGH_CONFIDENCE, matchConfidence, parseModList } from "@/lib/mod-list-import"
+
+describe("parseModList", () => {
+  it("takes one name per line, without list markers or duplicates", () => {
+    expect(parseModList("- Sodium\n\n1. Just Enough Items\n* sodium\nCreate\n")).toEqual([
+      "Sodium",
+      "Just Enough Items",
+      "Create",
+    ])
+  })
+
+  it("turns jar file names from a folder listing into mod names", () => {
+    const listing = [
+      "jei-1.20.1-forge-15.2.0.27.jar",
+      "-rw-r--r-- 1 steve steve 123456 Jan  1 12:00 Botania-1.20.1-444-FORGE.jar",
+      "sodium-fabric-mc1.20.1-0.5.3.jar",
+      "create-1.20.1-0.5.1.f.jar.disabled",
+    ].join("\n")
+    expect(parseModList(listing)).toEqual(["jei", "Botania", "sodium", "create"])
+  })
+
+  it("reads the name column of a CSV", () => {
+    expect(parseModList('Version,Name\n15,"Applied Energistics 2"\n0.5,Create')).toEqual([
+      "Applied Energistics 2",
+      "Create",
+    ])
+  })
+
+  it("reads the first column of a CSV without a header", () => {
+    expect(parseModList("Create;0.5\nMekanism;10")).toEqual(["Create", "Mekanism"])
+  })
+})
+
+describe("matchConfidence", () => {
+  it("is sure of exact and spacing-only differences", () => {
+    expect(matchConfidence("create", "Create")).toBe(1)
+    expect(matchConfidence("journey map", "JourneyMap")).toBe(0.95)
+  })
+
+  it("recognizes abbreviations in parentheses", () => {
+    expect(matchConfidence("JEI", "Just Enough Items (JEI)")).toBeGreaterThanOrEqual(HIGH_CONFIDENCE)
+  })
+
+  it("scores partial word overlap lower", () => {
+    const partial = matchConfidence("botania", "Botania Tweaks")
+    expect(partial).toBeGreaterThan(0)
+    expect(partial).toBeLessThan(HIGH_CONFIDENCE)
+    expect(matchConfidence("sodium", "Create")).toBe(0)
+  })
+})
+
+describe("findMatchCandidates", () => {
+  const client = createApiClient({ baseUrl: MOCK_BACKEND_URL, fetch: mockFetch })
+
+  it("ranks the search hits by match confidence", async () => {
+    const result = await findMatchCandidates(client, "JourneyMap")
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.data[0].mod.title).toBe("JourneyMap")
+    expect(result.data[0].confidence).toBe(1)
+    const confidences = result.data.map((candidate) => candidate.confidence)
+    expect(confidences).toEqual(confidences.slice().sort((a, b) => b - a))
+  })
+})
@@ -0,0 +1,135 @@
+import type { ApiClient, ApiResult, ModResult, RequestOptions } from "@/lib/api"
+
+// Mod names out of whatever list a user has at hand: one name per line, a `mods` folder listing
+// (plain or `ls -l`), or a CSV export with a name column. Duplicates are dropped.
+export function parseModList(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "")
+  const names = looksLikeCsv(lines) ? csvNames(lines) : lines.map(lineName)
+
+  const seen: Record<string, true> = {}
+  return names.filter((name) => {
+    const key = name.toLowerCase()
+    if (!name || seen[key]) return false
+    seen[key] = true
+    return true
+  })
+}
+
+function looksLikeCsv(lines: string[]): boolean {
+  return lines.length > 1 && lines.every((line) => line.indexOf(",") !== -1 || line.indexOf(";") !== -1)
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const fields: string[] = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === separator) {
+      fields.push(field)
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields.map((value) => value.trim())
+}
+
+const NAME_COLUMNS = ["name", "mod", "mod name", "title", "project", "file", "filename"]
+
+// Takes the first column whose header looks like a name, or the first column without a header
+function csvNames(lines: string[]): string[] {
+  const separator = lines[0].indexOf(";") !== -1 && lines[0].indexOf(",") === -1 ? ";" : ","
+  const rows = lines.map((line) => splitCsvLine(line, separator))
+  const header = rows[0].map((cell) => cell.toLowerCase())
+  const column = header.findIndex((cell) => NAME_COLUMNS.indexOf(cell) !== -1)
+  const body = column === -1 ? rows : rows.slice(1)
+  return body.map((row) => lineName(row[Math.max(column, 0)] ?? ""))
+}
+
+const LOADER_WORDS = /^(forge|neoforge|fabric|quilt|mc|universal|all)$/i
+
+// "jei-1.20.1-forge-15.2.0.27.jar" -> "jei", "Botania-1.20.1-444-FORGE.jar" -> "Botania"
+function jarName(fileName: string): string {
+  const words = fileName.replace(/\.jar(\.disabled)?$/i, "").split(/[-_+ ]+/)
+  const kept: string[] = []
+  for (let i = 0; i < words.length; i++) {
+    // Everything from the first version-looking part on is version noise
+    if (/^(v?\d|mc\d)/i.test(words[i])) break
+    if (!LOADER_WORDS.test(words[i])) kept.push(words[i])
+  }
+  return kept.join(" ")
+}
+
+function lineName(line: string): string {
+  const trimmed = line
+    .trim()
+    .replace(/^([-*•]|\d+[.)])\s+/, "")
+    .trim()
+  // The file name is the last column of an `ls -l` or `dir` listing
+  const jar = trimmed.match(/(\S+\.jar(\.disabled)?)$/i)
+  return jar ? jarName(jar[1]) : trimmed
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+// 0 to 1: how sure we are that `title` is the mod the user meant by `name`
+export function matchConfidence(name: string, title: string): number {
+  const nameTokens = tokens(name)
+  const titleTokens = tokens(title)
+  if (nameTokens.length === 0 || titleTokens.length === 0) return 0
+  if (nameTokens.join(" ") === titleTokens.join(" ")) return 1
+  if (nameTokens.join("") === titleTokens.join("")) return 0.95
+
+  // Abbreviations in parentheses, like "Just Enough Items (JEI)"
+  const abbreviations = (title.match(/\(([^)]+)\)/g) ?? []).map((part) => tokens(part).join(""))
+  if (abbreviations.indexOf(nameTokens.join("")) !== -1) return 0.9
+
+  // Dice coefficient of the word sets
+  const shared = nameTokens.filter((token) => titleTokens.indexOf(token) !== -1).length
+  return (2 * shared) / (nameTokens.length + titleTokens.length)
+}
+
+export interface MatchCandidate {
+  mod: ModResult
+  confidence: number
+}
+
+export const HIGH_CONFIDENCE = 0.8
+export const MEDIUM_CONFIDENCE = 0.5
+
+const CANDIDATE_COUNT = 5
+
+// Search hits for `name`, best match first
+export async function findMatchCandidates(
+  client: ApiClient,
+  name: string,
+  init?: RequestOptions,
+): Promise<ApiResult<MatchCandidate[]>> {
+  const search = await client.search({ q: name, size: CANDIDATE_COUNT, offset: 0 }, init)
+  if (!search.ok) return search
+  const candidates = search.data.results
+    .map((mod) => ({ mod, confidence: matchConfidence(name, mod.title) }))
+    // Stable for equal confidence, so the backend's ranking breaks ties
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.confidence - a.candidate.confidence || a.index - b.index)
+    .map(({ candidate }) => candidate)
+  return { ok: true, data: candidates }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+
+import { fakeCollection, fakeMod } from "@/lib/mock/fixtures"
+import { buildCurseForgeManifest, buildModlistHtml, curseForgeExporter, UNKNOWN_FILE_ID } from "@/lib/modpack/curseforge"
+import { openZip } from "@/lib/zip"
+
+const jei = fakeMod(238222, {
+  title: "Just Enough Items (JEI)",
+  authors: ["mezz"],
+  websiteUrl: "https://www.curseforge.com/minecraft/mc-mods/jei",
+})
+const collection = fakeCollection("Cozy Pack", [jei, fakeMod(2, { title: "<Tom's> & Storage", authors: ["a", "b"] })])
+
+describe("buildCurseForgeManifest", () => {
+  it("lists every project with an unknown file", () => {
+    const manifest = buildCurseForgeManifest(collection, { minecraftVersion: "1.20.1", loader: "forge", loaderVersion: "" })
+    expect(manifest.name).toBe("Cozy Pack")
+    expect(manifest.files).toEqual([
+      { projectID: 238222, fileID: UNKNOWN_FILE_ID, required: true },
+      { projectID: 2, fileID: UNKNOWN_FILE_ID, required: true },
+    ])
+  })
+
+  it("names the loader with its version when there is one", () => {
+    const withVersion = buildCurseForgeManifest(collection, {
+      minecraftVersion: "1.20.1",
+      loader: "neoforge",
+      loaderVersion: "47.1.0",
+    })
+    expect(withVersion.minecraft).toEqual({ version: "1.20.1", modLoaders: [{ id: "neoforge-47.1.0", primary: true }] })
+    const without = buildCurseForgeManifest(collection, { minecraftVersion: "1.20.1", loader: "fabric", loaderVersion: "" })
+    expect(without.minecraft.modLoaders[0].id).toBe("fabric")
+  })
+})
+
+describe("buildModlistHtml", () => {
+  it("links every mod and escapes titles and urls", () => {
+    expect(buildModlistHtml(collection)).toBe(
+      "<ul>\n" +
+        '<li><a href="https://www.curseforge.com/minecraft/mc-mods/jei">Just Enough Items (JEI) (by mezz)</a></li>\n' +
+        '<li><a href="">&lt;Tom\'s&gt; &amp; Storage (by a, b)</a></li>\n' +
+        "</ul>\n",
+    )
+  })
+})
+
+describe("curseForgeExporter", () => {
+  it("asks for the loader version only when it is missing", () => {
+    const target = { minecraftVersion: "1.20.1", loader: "forge" as const, loaderVersion: "" }
+    expect(curseForgeExporter.missingInfo(collection, target).map((missing) => missing.field)).toEqual([
+      "File IDs",
+      "Loader version",
+    ])
+    expect(
+      curseForgeExporter.missingInfo(collection, { ...target, loaderVersion: "47.2.0" }).map((missing) => missing.field),
+    ).toEqual(["File IDs"])
+  })
+
+  it("zips the manifest, the mod list and an overrides folder", async () => {
+    const target = { minecraftVersion: "1.20.1", loader: "forge" as const, loaderVersion: "47.2.0" }
+    const zip = await openZip(await curseForgeExporter.build(collection, target))
+    expect(zip.paths).toEqual(["manifest.json", "modlist.html", "overrides/"])
+    expect(JSON.parse((await zip.readText("manifest.json")) ?? "")).toEqual(buildCurseForgeManifest(collection, target))
+  })
+})
@@ -0,0 +1,90 @@
+import type { Collection } from "@/lib/collections"
+import { createZip } from "@/lib/zip"
+import type { PackExporter } from "./exporter"
+import type { PackTarget } from "./loaders"
+
+export interface CurseForgeManifest {
+  minecraft: {
+    version: string
+    modLoaders: { id: string; primary: boolean }[]
+  }
+  manifestType: "minecraftModpack"
+  manifestVersion: 1
+  name: string
+  version: string
+  author: string
+  files: { projectID: number; fileID: number; required: boolean }[]
+  overrides: "overrides"
+}
+
+// The index knows projects but not their files, so fileID stays 0 until a file is picked for
+// each mod in the CurseForge app
+export const UNKNOWN_FILE_ID = 0
+
+export function buildCurseForgeManifest(collection: Collection, target: PackTarget): CurseForgeManifest {
+  return {
+    minecraft: {
+      version: target.minecraftVersion,
+      modLoaders: [
+        {
+          id: target.loaderVersion ? `${target.loader}-${target.loaderVersion}` : target.loader,
+          primary: true,
+        },
+      ],
+    },
+    manifestType: "minecraftModpack",
+    manifestVersion: 1,
+    name: collection.name,
+    version: "1.0.0",
+    author: "",
+    files: collection.items.map((item) => ({ projectID: item.mod.id, fileID: UNKNOWN_FILE_ID, required: true })),
+    overrides: "overrides",
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+// Same shape as the modlist.html CurseForge puts in its own exports
+export function buildModlistHtml(collection: Collection): string {
+  const items = collection.items.map(({ mod }) => {
+    const label = `${mod.title} (by ${mod.authors.join(", ")})`
+    return `<li><a href="${escapeHtml(mod.websiteUrl)}">${escapeHtml(label)}</a></li>`
+  })
+  return `<ul>\n${items.join("\n")}\n</ul>\n`
+}
+
+export const curseForgeExporter: PackExporter = {
+  id: "curseforge",
+  label: "CurseForge",
+  description: "A zip with manifest.json and modlist.html, imported as a custom profile.",
+  extension: "zip",
+  requiresLoaderVersion: false,
+
+  missingInfo(collection, target) {
+    const missing = [
+      {
+        field: "File IDs",
+        consequence: "Every fileID is left at 0, pick the files in the CurseForge app after importing.",
+        mods: collection.items.map((item) => item.mod),
+      },
+    ]
+    if (!target.loaderVersion) {
+      missing.push({ field: "Loader version", consequence: "The CurseForge app asks for one on import.", mods: [] })
+    }
+    return missing
+  },
+
+  async build(collection, target) {
+    return createZip([
+      { path: "manifest.json", content: JSON.stringify(buildCurseForgeManifest(collection, target), null, 2) },
+      { path: "modlist.html", content: buildModlistHtml(collection) },
+      { path: "overrides/", content: "" },
+    ])
+  },
+}
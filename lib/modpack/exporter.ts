@@ -0,0 +1,24 @@
+import type { ModResult } from "@/lib/api/schemas"
+import type { Collection } from "@/lib/collections"
+import type { PackTarget } from "./loaders"
+
+// Information a format needs that the search index does not provide
+export interface MissingInfo {
+  field: string
+  // What the export does without it
+  consequence: string
+  // Affected mods, empty when it concerns the pack as a whole
+  mods: ModResult[]
+}
+
+// A modpack file format. Exporters never guess at data they lack: they leave it out and report
+// it through missingInfo, so the user knows what to fill in by hand.
+export interface PackExporter {
+  id: string
+  label: string
+  description: string
+  extension: string
+  requiresLoaderVersion: boolean
+  missingInfo(collection: Collection, target: PackTarget): MissingInfo[]
+  build(collection: Collection, target: PackTarget): Promise<Blob>
+}
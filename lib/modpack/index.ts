@@ -0,0 +1,14 @@
+import { curseForgeExporter } from "./curseforge"
+import type { PackExporter } from "./exporter"
+import { modrinthExporter } from "./modrinth"
+import { packwizExporter } from "./packwiz"
+
+export * from "./exporter"
+export * from "./loaders"
+
+// Formats offered in the export dialog, in this order
+export const PACK_EXPORTERS: PackExporter[] = [curseForgeExporter, modrinthExporter, packwizExporter]
+
+export function findPackExporter(id: string): PackExporter | undefined {
+  return PACK_EXPORTERS.find((exporter) => exporter.id === id)
+}
@@ -0,0 +1,54 @@
+import { z } from "zod"
+
+import type { ModResult } from "@/lib/api/schemas"
+import { createLocalStore } from "@/lib/local-store"
+
+export const MOD_LOADERS = ["forge", "neoforge", "fabric", "quilt"] as const
+
+export type ModLoader = (typeof MOD_LOADERS)[number]
+
+export const MOD_LOADER_LABELS: Record<ModLoader, string> = {
+  forge: "Forge",
+  neoforge: "NeoForge",
+  fabric: "Fabric",
+  quilt: "Quilt",
+}
+
+export interface PackTarget {
+  minecraftVersion: string
+  loader: ModLoader
+  // Optional: some formats need it and fall back to asking the launcher
+  loaderVersion: string
+}
+
+// e.g. 1.20.1, 1.21 or 24w14a snapshots
+export const MINECRAFT_VERSION_PATTERN = /^(\d+\.\d+(\.\d+)?|\d{2}w\d{2}[a-z])$/
+
+// The index has no file or version data. The only hint is which loaders a mod's title and
+// description name: "likely" when they name the chosen one, "conflict" when they only name others.
+export type Compatibility = "likely" | "unknown" | "conflict"
+
+const LOADER_PATTERNS: Record<ModLoader, RegExp> = {
+  forge: /\bforge\b/i,
+  neoforge: /\bneoforge\b/i,
+  fabric: /\bfabric\b/i,
+  quilt: /\bquilt\b/i,
+}
+
+export function checkCompatibility(mod: ModResult, loader: ModLoader): Compatibility {
+  const text = `${mod.title} ${mod.description}`
+  const mentioned = Object.keys(LOADER_PATTERNS).filter((name) => LOADER_PATTERNS[name as ModLoader].test(text))
+  if (mentioned.indexOf(loader) !== -1) return "likely"
+  return mentioned.length > 0 ? "conflict" : "unknown"
+}
+
+const packTargetSchema = z.object({
+  minecraftVersion: z.string(),
+  loader: z.enum(MOD_LOADERS),
+  loaderVersion: z.string(),
+})
+
+const DEFAULT_PACK_TARGET: PackTarget = { minecraftVersion: "", loader: "forge", loaderVersion: "" }
+
+// Last target exported to, most packs of a user share it
+export const packTargetStore = createLocalStore("mods-search:pack-target", packTargetSchema, DEFAULT_PACK_TARGET)
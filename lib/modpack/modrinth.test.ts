@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+
+import { fakeCollection, fakeMod } from "@/lib/mock/fixtures"
+import { buildModrinthIndex, modrinthExporter } from "@/lib/modpack/modrinth"
+import { openZip } from "@/lib/zip"
+
+const collection = fakeCollection("Fabric Basics", [fakeMod(1), fakeMod(2)])
+const target = { minecraftVersion: "1.20.1", loader: "fabric" as const, loaderVersion: "0.15.7" }
+
+describe("buildModrinthIndex", () => {
+  it("pins Minecraft and the loader under Modrinth's loader id", () => {
+    expect(buildModrinthIndex(collection, target)).toEqual({
+      formatVersion: 1,
+      game: "minecraft",
+      versionId: "1.0.0",
+      name: "Fabric Basics",
+      files: [],
+      dependencies: { minecraft: "1.20.1", "fabric-loader": "0.15.7" },
+    })
+  })
+})
+
+describe("modrinthExporter", () => {
+  it("reports every mod as left out of the index", () => {
+    const missing = modrinthExporter.missingInfo(collection, target)
+    expect(missing).toHaveLength(1)
+    expect(missing[0].mods.map((mod) => mod.id)).toEqual([1, 2])
+  })
+
+  it("zips modrinth.index.json and an overrides folder", async () => {
+    const zip = await openZip(await modrinthExporter.build(collection, target))
+    expect(zip.paths).toEqual(["modrinth.index.json", "overrides/"])
+    expect(JSON.parse((await zip.readText("modrinth.index.json")) ?? "")).toEqual(buildModrinthIndex(collection, target))
+  })
+})
@@ -0,0 +1,69 @@
+import type { Collection } from "@/lib/collections"
+import { createZip } from "@/lib/zip"
+import type { PackExporter } from "./exporter"
+import type { ModLoader, PackTarget } from "./loaders"
+
+// Loader ids in the `dependencies` of modrinth.index.json
+const MODRINTH_LOADER_IDS: Record<ModLoader, string> = {
+  forge: "forge",
+  neoforge: "neoforge",
+  fabric: "fabric-loader",
+  quilt: "quilt-loader",
+}
+
+export interface ModrinthIndexFile {
+  path: string
+  hashes: { sha1: string; sha512: string }
+  downloads: string[]
+  fileSize: number
+}
+
+export interface ModrinthIndex {
+  formatVersion: 1
+  game: "minecraft"
+  versionId: string
+  name: string
+  files: ModrinthIndexFile[]
+  dependencies: Record<string, string>
+}
+
+// Every file entry needs hashes, download URLs and a size the index does not have, so the
+// mods themselves cannot be listed; the pack carries the Minecraft and loader versions
+export function buildModrinthIndex(collection: Collection, target: PackTarget): ModrinthIndex {
+  return {
+    formatVersion: 1,
+    game: "minecraft",
+    versionId: "1.0.0",
+    name: collection.name,
+    files: [],
+    dependencies: {
+      minecraft: target.minecraftVersion,
+      [MODRINTH_LOADER_IDS[target.loader]]: target.loaderVersion,
+    },
+  }
+}
+
+export const modrinthExporter: PackExporter = {
+  id: "modrinth",
+  label: "Modrinth (.mrpack)",
+  description: "A .mrpack with modrinth.index.json, for the Modrinth app and Prism Launcher.",
+  extension: "mrpack",
+  requiresLoaderVersion: true,
+
+  missingInfo(collection) {
+    return [
+      {
+        field: "Download URLs, SHA-1 and SHA-512 hashes, file sizes",
+        consequence: "These mods are left out of modrinth.index.json, add them in the launcher after importing.",
+        mods: collection.items.map((item) => item.mod),
+      },
+    ]
+  },
+
+  async build(collection, target) {
+    return createZip([
+      { path: "modrinth.index.json", content: JSON.stringify(buildModrinthIndex(collection, target), null, 2) },
+      { path: "overrides/", content: "" },
+    ])
+  },
+}
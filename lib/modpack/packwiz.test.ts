@@ -0,0 +1,80 @@
+import { createHash } from "crypto"
+import { describe, expect, it } from "vitest"
+
+import { fakeCollection, fakeMod } from "@/lib/mock/fixtures"
+import { buildModMetafile, buildModMetafiles, buildPackwizIndex, modSlug, packwizExporter } from "@/lib/modpack/packwiz"
+import { openZip } from "@/lib/zip"
+
+const jei = fakeMod(238222, {
+  title: "Just Enough Items (JEI)",
+  websiteUrl: "https://www.curseforge.com/minecraft/mc-mods/jei",
+})
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex")
+}
+
+describe("modSlug", () => {
+  it("takes the slug from the CurseForge url", () => {
+    expect(modSlug(jei)).toBe("jei")
+  })
+
+  it("falls back to the title, then the id", () => {
+    expect(modSlug(fakeMod(1, { title: "Tom's Simple Storage!" }))).toBe("tom-s-simple-storage")
+    expect(modSlug(fakeMod(7, { title: "!!!" }))).toBe("7")
+  })
+})
+
+describe("buildModMetafile", () => {
+  it("names the CurseForge project and escapes the title", () => {
+    expect(buildModMetafile(fakeMod(42, { title: 'The "Best" Mod' }))).toBe(
+      [
+        'name = "The \\"Best\\" Mod"',
+        "",
+        "[download]",
+        'mode = "metadata:curseforge"',
+        'hash-format = "sha1"',
+        "",
+        "[update.curseforge]",
+        "project-id = 42",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("buildModMetafiles", () => {
+  it("tells mods with the same slug apart by their id", () => {
+    const collection = fakeCollection("Pack", [fakeMod(1, { title: "Storage" }), fakeMod(2, { title: "storage" })])
+    const files = buildModMetafiles(collection)
+    expect(files.map((file) => file.path)).toEqual(["mods/storage.pw.toml", "mods/storage-2.pw.toml"])
+  })
+})
+
+describe("buildPackwizIndex", () => {
+  it("lists every metafile with its sha256", async () => {
+    const index = await buildPackwizIndex([{ path: "mods/jei.pw.toml", content: "name = \"JEI\"\n" }])
+    expect(index).toBe(
+      [
+        'hash-format = "sha256"',
+        "",
+        "[[files]]",
+        'file = "mods/jei.pw.toml"',
+        `hash = "${sha256('name = "JEI"\n')}"`,
+        "metafile = true",
+        "",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("packwizExporter", () => {
+  it("zips pack.toml pointing at the index by hash", async () => {
+    const target = { minecraftVersion: "1.20.1", loader: "quilt" as const, loaderVersion: "0.23.1" }
+    const zip = await openZip(await packwizExporter.build(fakeCollection("Pack", [jei]), target))
+    expect(zip.paths).toEqual(["pack.toml", "index.toml", "mods/jei.pw.toml"])
+    const packToml = (await zip.readText("pack.toml")) ?? ""
+    expect(packToml).toContain(`hash = "${sha256((await zip.readText("index.toml")) ?? "")}"`)
+    expect(packToml).toContain('quilt = "0.23.1"')
+  })
+})
@@ -0,0 +1,120 @@
+import type { ModResult } from "@/lib/api/schemas"
+import type { Collection } from "@/lib/collections"
+import { createZip } from "@/lib/zip"
+import type { PackExporter } from "./exporter"
+import type { PackTarget } from "./loaders"
+
+// TOML basic strings accept the same escapes as JSON strings
+function tomlString(value: string): string {
+  return JSON.stringify(value)
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  const bytes: string[] = []
+  new Uint8Array(digest).forEach((byte) => bytes.push(`0${byte.toString(16)}`.slice(-2)))
+  return bytes.join("")
+}
+
+// CurseForge project pages end in the slug packwiz names the metadata files after
+export function modSlug(mod: ModResult): string {
+  const fromUrl = mod.websiteUrl.match(/\/mc-mods\/([a-z0-9-]+)\/?$/)
+  if (fromUrl) return fromUrl[1]
+  const fromTitle = mod.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return fromTitle || String(mod.id)
+}
+
+// The index has the CurseForge project but no file, so filename, hash and file-id are left out
+// until `packwiz update --all` picks the newest file for each mod
+export function buildModMetafile(mod: ModResult): string {
+  return [
+    `name = ${tomlString(mod.title)}`,
+    "",
+    "[download]",
+    'mode = "metadata:curseforge"',
+    'hash-format = "sha1"',
+    "",
+    "[update.curseforge]",
+    `project-id = ${mod.id}`,
+    "",
+  ].join("\n")
+}
+
+export interface PackwizFile {
+  path: string
+  content: string
+}
+
+export function buildModMetafiles(collection: Collection): PackwizFile[] {
+  const used: Record<string, true> = {}
+  return collection.items.map(({ mod }) => {
+    // Two mods can share a title slug, the project id tells them apart
+    let slug = modSlug(mod)
+    if (used[slug]) slug = `${slug}-${mod.id}`
+    used[slug] = true
+    return { path: `mods/${slug}.pw.toml`, content: buildModMetafile(mod) }
+  })
+}
+
+export async function buildPackwizIndex(files: PackwizFile[]): Promise<string> {
+  const lines = ['hash-format = "sha256"']
+  for (let i = 0; i < files.length; i++) {
+    lines.push(
+      "",
+      "[[files]]",
+      `file = ${tomlString(files[i].path)}`,
+      `hash = ${tomlString(await sha256Hex(files[i].content))}`,
+      "metafile = true",
+    )
+  }
+  return lines.join("\n") + "\n"
+}
+
+export function buildPackToml(collection: Collection, target: PackTarget, indexHash: string): string {
+  return [
+    `name = ${tomlString(collection.name)}`,
+    'pack-format = "packwiz:1.1.0"',
+    "",
+    "[index]",
+    'file = "index.toml"',
+    'hash-format = "sha256"',
+    `hash = ${tomlString(indexHash)}`,
+    "",
+    "[versions]",
+    `minecraft = ${tomlString(target.minecraftVersion)}`,
+    `${target.loader} = ${tomlString(target.loaderVersion)}`,
+    "",
+  ].join("\n")
+}
+
+export const packwizExporter: PackExporter = {
+  id: "packwiz",
+  label: "packwiz",
+  description: "A zip of the pack.toml, index.toml and per-mod .pw.toml tree, to commit and serve with packwiz.",
+  extension: "zip",
+  requiresLoaderVersion: true,
+
+  missingInfo(collection) {
+    return [
+      {
+        field: "File IDs, file names and hashes",
+        consequence: "These .pw.toml files only name the CurseForge project, run `packwiz update --all` to pick the files.",
+        mods: collection.items.map((item) => item.mod),
+      },
+    ]
+  },
+
+  async build(collection, target) {
+    const metafiles = buildModMetafiles(collection)
+    const index = await buildPackwizIndex(metafiles)
+    return createZip(
+      [
+        { path: "pack.toml", content: buildPackToml(collection, target, await sha256Hex(index)) },
+        { path: "index.toml", content: index },
+      ].concat(metafiles),
+    )
+  },
+}
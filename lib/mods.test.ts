@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+
+import { createApiClient, lookupMod } from "@/lib/api"
+import { MOCK_BACKEND_URL, mockFetch } from "@/lib/mock/backend"
+import { modHref, parseModParam } from "@/lib/mods"
+
+describe("modHref and parseModParam", () => {
+  it("puts the title words after the id", () => {
+    expect(modHref({ id: 238222, title: "Just Enough Items (JEI)" })).toBe("/mods/238222-just-enough-items-jei")
+    expect(parseModParam("238222-just-enough-items-jei")).toEqual({ id: 238222, title: "just enough items jei" })
+  })
+
+  it("accepts a bare id and rejects anything else", () => {
+    expect(parseModParam("238222")).toEqual({ id: 238222, title: "" })
+    expect(parseModParam("jei")).toBeUndefined()
+    expect(parseModParam("0-air")).toBeUndefined()
+  })
+})
+
+describe("lookupMod", () => {
+  const client = createApiClient({ baseUrl: MOCK_BACKEND_URL, fetch: mockFetch })
+
+  it("finds the mod among the hits for its title", async () => {
+    const result = await lookupMod(client, 253972, "just enough items jei")
+    expect(result.ok && result.data.title).toBe("Just Enough Items (JEI)")
+  })
+
+  it("answers 404 when no hit has the id", async () => {
+    const result = await lookupMod(client, 1, "just enough items jei")
+    expect(!result.ok && result.error.status).toBe(404)
+  })
+})
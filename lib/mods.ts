@@ -0,0 +1,23 @@
+import type { ModResult } from "@/lib/api"
+import { slugify } from "@/lib/utils"
+
+// Mod pages live at /mods/{id}-{title slug}. The search index cannot look a mod up by id, so the
+// page searches the title words from its URL and picks the mod with that id from the hits.
+export function modHref(mod: Pick<ModResult, "id" | "title">): string {
+  const slug = slugify(mod.title)
+  return slug ? `/mods/${mod.id}-${slug}` : `/mods/${mod.id}`
+}
+
+export interface ModPageParam {
+  id: number
+  // Title words to search for, empty when the URL has none
+  title: string
+}
+
+// Undefined when the path segment does not start with a mod id
+export function parseModParam(param: string): ModPageParam | undefined {
+  const match = param.match(/^(\d+)(?:-([a-z0-9-]*))?$/)
+  const id = match ? Number(match[1]) : 0
+  if (!match || id <= 0) return undefined
+  return { id, title: (match[2] ?? "").replace(/-/g, " ").trim() }
+}
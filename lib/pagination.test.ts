@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest"
+
+import { hasMorePages, pageOffset } from "@/lib/pagination"
+
+describe("pageOffset", () => {
+  it("starts the first page at 0", () => {
+    expect(pageOffset(1, 10)).toBe(0)
+    expect(pageOffset(3, 10)).toBe(20)
+  })
+})
+
+describe("hasMorePages", () => {
+  it("compares against the total when the backend reports one", () => {
+    expect(hasMorePages({ loadedCount: 20, lastBatchSize: 10, requestedSize: 10, total: 25 })).toBe(true)
+    expect(hasMorePages({ loadedCount: 30, lastBatchSize: 5, requestedSize: 10, total: 25 })).toBe(false)
+    expect(hasMorePages({ loadedCount: 20, lastBatchSize: 10, requestedSize: 10, total: 20 })).toBe(false)
+  })
+
+  it("guesses from a full last page without a total", () => {
+    expect(hasMorePages({ loadedCount: 20, lastBatchSize: 10, requestedSize: 10 })).toBe(true)
+    expect(hasMorePages({ loadedCount: 17, lastBatchSize: 7, requestedSize: 10 })).toBe(false)
+  })
+})
@@ -0,0 +1,17 @@
+// Offset of a 1-based page
+export function pageOffset(page: number, pageSize: number): number {
+  return (page - 1) * pageSize
+}
+
+interface MorePagesInput {
+  // Hits up to and including the last page fetched
+  loadedCount: number
+  lastBatchSize: number
+  requestedSize: number
+  total?: number
+}
+
+// Uses the total when the backend reports one, otherwise guesses from whether the last page was full
+export function hasMorePages({ loadedCount, lastBatchSize, requestedSize, total }: MorePagesInput): boolean {
+  return total !== undefined ? loadedCount < total : lastBatchSize === requestedSize
+}
@@ -0,0 +1,59 @@
+import type { ModResult } from "@/lib/api"
+
+export interface AuthorCount {
+  author: string
+  count: number
+}
+
+// Authors of `mods` with the number of hits each, most prolific first
+export function countAuthors(mods: ModResult[]): AuthorCount[] {
+  const counts: Record<string, number> = {}
+  mods.forEach((mod) => {
+    mod.authors.forEach((author) => {
+      counts[author] = (counts[author] ?? 0) + 1
+    })
+  })
+  return Object.keys(counts)
+    .map((author) => ({ author, count: counts[author] }))
+    .sort((a, b) => b.count - a.count || a.author.localeCompare(b.author))
+}
+
+// Popularity ranks grow roughly tenfold per bucket, ranks run past 100,000 on CurseForge
+export const RANK_BUCKETS = [
+  { label: "Top 10", min: 1, max: 10 },
+  { label: "11–100", min: 11, max: 100 },
+  { label: "101–1K", min: 101, max: 1000 },
+  { label: "1K–10K", min: 1001, max: 10000 },
+  { label: "10K+", min: 10001, max: Infinity },
+]
+
+export interface RankBucketCount {
+  label: string
+  count: number
+}
+
+export function rankBucketOf(mod: ModResult): string {
+  const bucket = RANK_BUCKETS.find(({ min, max }) => mod.popularityRank >= min && mod.popularityRank <= max)
+  return (bucket ?? RANK_BUCKETS[0]).label
+}
+
+// Every bucket, empty ones included, so the spread keeps its shape
+export function countRankBuckets(mods: ModResult[]): RankBucketCount[] {
+  return RANK_BUCKETS.map(({ label }) => ({
+    label,
+    count: mods.filter((mod) => rankBucketOf(mod) === label).length,
+  }))
+}
+
+// Narrowing picked on the charts, on top of the category filters in the URL
+export interface ChartFilter {
+  author: string | null
+  rankBucket: string | null
+}
+
+export const NO_CHART_FILTER: ChartFilter = { author: null, rankBucket: null }
+
+export function matchesChartFilter(mod: ModResult, filter: ChartFilter): boolean {
+  if (filter.author !== null && mod.authors.indexOf(filter.author) === -1) return false
+  return filter.rankBucket === null || rankBucketOf(mod) === filter.rankBucket
+}
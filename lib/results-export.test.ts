@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+
+import { fakeMod } from "@/lib/mock/fixtures"
+import { EXPORT_COLUMNS, serializeResults } from "@/lib/results-export"
+
+const jei = fakeMod(238222, {
+  title: "Just Enough Items (JEI)",
+  authors: ["mezz"],
+  categories: ["API and Library", "Utility & QoL"],
+  description: "View items and recipes",
+  popularityRank: 1,
+  websiteUrl: "https://www.curseforge.com/minecraft/mc-mods/jei",
+})
+
+const awkward = fakeMod(2, {
+  title: 'Pipes | "Quotes"',
+  authors: ["a", "b"],
+  description: "Line one\nline two, with a comma \\ and a backslash",
+})
+
+describe("serializeResults", () => {
+  it("writes CSV with a header row and CRLF line ends", () => {
+    expect(serializeResults([jei], "csv", ["id", "title", "authors"])).toBe(
+      'ID,Title,Authors\r\n238222,Just Enough Items (JEI),mezz\r\n',
+    )
+  })
+
+  it("quotes CSV fields with separators, quotes or line breaks", () => {
+    const csv = serializeResults([awkward], "csv", ["title", "authors", "description"])
+    expect(csv.split("\r\n")[1]).toBe(
+      '"Pipes | ""Quotes""","a, b","Line one\nline two, with a comma \\ and a backslash"',
+    )
+  })
+
+  it("keeps lists and numbers as they are in JSON", () => {
+    expect(JSON.parse(serializeResults([jei], "json", ["id", "categories"]))).toEqual([
+      { id: 238222, categories: ["API and Library", "Utility & QoL"] },
+    ])
+  })
+
+  it("escapes pipes and backslashes and turns line breaks into <br> in Markdown", () => {
+    const lines = serializeResults([awkward], "markdown", ["title", "description"]).split("\n")
+    expect(lines[0]).toBe("| Title | Description |")
+    expect(lines[1]).toBe("| --- | --- |")
+    expect(lines[2]).toBe('| Pipes \\| "Quotes" | Line one<br>line two, with a comma \\\\ and a backslash |')
+  })
+
+  it("writes the columns in the order given", () => {
+    const header = serializeResults([], "csv", EXPORT_COLUMNS.slice()).split("\r\n")[0]
+    expect(header).toBe("ID,Title,Authors,Categories,Popularity rank,Description,URL")
+  })
+})
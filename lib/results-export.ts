@@ -0,0 +1,74 @@
+import type { ModResult } from "@/lib/api"
+
+export const EXPORT_FORMATS = ["csv", "json", "markdown"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_DETAILS: Record<ExportFormat, { label: string; extension: string; type: string }> = {
+  csv: { label: "CSV", extension: "csv", type: "text/csv" },
+  json: { label: "JSON", extension: "json", type: "application/json" },
+  markdown: { label: "Markdown table", extension: "md", type: "text/markdown" },
+}
+
+export const EXPORT_COLUMNS = [
+  "id",
+  "title",
+  "authors",
+  "categories",
+  "popularityRank",
+  "description",
+  "websiteUrl",
+] as const
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number]
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: "ID",
+  title: "Title",
+  authors: "Authors",
+  categories: "Categories",
+  popularityRank: "Popularity rank",
+  description: "Description",
+  websiteUrl: "URL",
+}
+
+// Lists flattened for the table formats
+function cellText(mod: ModResult, column: ExportColumn): string {
+  const value = mod[column]
+  return Array.isArray(value) ? value.join(", ") : String(value)
+}
+
+// RFC 4180: fields with separators, quotes or line breaks are quoted, and quotes are doubled
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Pipes would end the cell and line breaks the row
+function markdownCell(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, "<br>")
+}
+
+export function serializeResults(mods: ModResult[], format: ExportFormat, columns: ExportColumn[]): string {
+  if (format === "json") {
+    const rows = mods.map((mod) => {
+      const row: Partial<Record<ExportColumn, unknown>> = {}
+      columns.forEach((column) => {
+        row[column] = mod[column]
+      })
+      return row
+    })
+    return JSON.stringify(rows, null, 2)
+  }
+
+  const labels = columns.map((column) => EXPORT_COLUMN_LABELS[column])
+  const rows = mods.map((mod) => columns.map((column) => cellText(mod, column)))
+  if (format === "csv") {
+    // CRLF line ends, which spreadsheet apps expect
+    return [labels].concat(rows).map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n"
+  }
+  const line = (cells: string[]) => `| ${cells.map(markdownCell).join(" | ")} |`
+  return [line(labels), line(columns.map(() => "---"))].concat(rows.map(line)).join("\n") + "\n"
+}
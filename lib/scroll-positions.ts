@@ -0,0 +1,34 @@
+import { z } from "zod"
+
+import { createLocalStore } from "@/lib/local-store"
+
+// Scroll position per search, so back/forward and reloads land where the user left a result list
+
+const scrollEntrySchema = z.object({
+  key: z.string(),
+  scrollY: z.number(),
+})
+
+type ScrollEntry = z.infer<typeof scrollEntrySchema>
+
+const MAX_ENTRIES = 50
+const NO_ENTRIES: ScrollEntry[] = []
+
+// Most recently saved first, for this tab only
+const scrollPositionsStore = createLocalStore(
+  "mods-search:scroll-positions",
+  z.array(scrollEntrySchema),
+  NO_ENTRIES,
+  "session",
+)
+
+export function readScrollPosition(key: string): number | undefined {
+  const entry = scrollPositionsStore.read().find((candidate) => candidate.key === key)
+  return entry?.scrollY
+}
+
+export function saveScrollPosition(key: string, scrollY: number) {
+  scrollPositionsStore.write((entries) =>
+    [{ key, scrollY }].concat(entries.filter((entry) => entry.key !== key)).slice(0, MAX_ENTRIES),
+  )
+}
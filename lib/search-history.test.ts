@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import { clearHistory, orderHistory, recordSearch, searchHistoryStore, setHistoryPinned } from "@/lib/search-history"
+
+function record(term: string, resultCount = 1) {
+  recordSearch({ term, mode: "suggester", resultCount })
+}
+
+function terms(): string[] {
+  return searchHistoryStore.read().map((entry) => entry.term)
+}
+
+afterEach(() => clearHistory())
+
+describe("recordSearch", () => {
+  it("moves a term searched again to the top instead of repeating it", () => {
+    record("create")
+    record("jei")
+    record("  Create ", 7)
+    expect(terms()).toEqual(["Create", "jei"])
+    expect(searchHistoryStore.read()[0].resultCount).toBe(7)
+  })
+
+  it("keeps a term pinned when it is searched again", () => {
+    record("create")
+    setHistoryPinned("create", true)
+    record("CREATE")
+    expect(searchHistoryStore.read()[0]).toMatchObject({ term: "CREATE", pinned: true })
+  })
+
+  it("keeps the 50 newest unpinned terms, and every pinned one", () => {
+    record("pinned")
+    setHistoryPinned("pinned", true)
+    for (let i = 1; i <= 60; i++) record(`term ${i}`)
+    const entries = searchHistoryStore.read()
+    expect(entries.filter((entry) => !entry.pinned)).toHaveLength(50)
+    expect(terms()[0]).toBe("term 60")
+    expect(terms()).toContain("pinned")
+    expect(terms()).not.toContain("term 10")
+  })
+})
+
+describe("orderHistory", () => {
+  it("puts pinned terms first", () => {
+    record("a")
+    record("b")
+    setHistoryPinned("a", true)
+    expect(orderHistory(searchHistoryStore.read()).map((entry) => entry.term)).toEqual(["a", "b"])
+  })
+})
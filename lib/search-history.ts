@@ -0,0 +1,71 @@
+import { z } from "zod"
+
+import { AUTOCOMPLETE_MODES } from "@/lib/api/client"
+import { createLocalStore } from "@/lib/local-store"
+import { DEFAULT_SEARCH_STATE, serializeSearchState } from "@/lib/search-params"
+
+const historyEntrySchema = z.object({
+  term: z.string(),
+  timestamp: z.number(),
+  mode: z.enum(AUTOCOMPLETE_MODES),
+  resultCount: z.number().int().nonnegative(),
+  pinned: z.boolean(),
+})
+
+export type HistoryEntry = z.infer<typeof historyEntrySchema>
+
+// Pinned entries do not count against the cap
+const MAX_UNPINNED_ENTRIES = 50
+
+const EMPTY_HISTORY: HistoryEntry[] = []
+
+// Newest first
+export const searchHistoryStore = createLocalStore("mods-search:history", z.array(historyEntrySchema), EMPTY_HISTORY)
+
+function normalizeTerm(term: string): string {
+  return term.trim().replace(/\s+/g, " ").toLowerCase()
+}
+
+function isSameTerm(entry: HistoryEntry, term: string): boolean {
+  return normalizeTerm(entry.term) === normalizeTerm(term)
+}
+
+// Searching a term again moves it to the top instead of adding a second entry
+export function recordSearch({ term, mode, resultCount }: Pick<HistoryEntry, "term" | "mode" | "resultCount">) {
+  searchHistoryStore.write((entries) => {
+    const previous = entries.find((entry) => isSameTerm(entry, term))
+    const entry: HistoryEntry = {
+      term: term.trim(),
+      timestamp: Date.now(),
+      mode,
+      resultCount,
+      pinned: previous?.pinned ?? false,
+    }
+    let unpinned = 0
+    return [entry]
+      .concat(entries.filter((other) => !isSameTerm(other, term)))
+      .filter((other) => other.pinned || ++unpinned <= MAX_UNPINNED_ENTRIES)
+  })
+}
+
+export function setHistoryPinned(term: string, pinned: boolean) {
+  searchHistoryStore.write((entries) => entries.map((entry) => (isSameTerm(entry, term) ? { ...entry, pinned } : entry)))
+}
+
+export function removeHistoryEntry(term: string) {
+  searchHistoryStore.write((entries) => entries.filter((entry) => !isSameTerm(entry, term)))
+}
+
+export function clearHistory() {
+  searchHistoryStore.write(() => EMPTY_HISTORY)
+}
+
+// Pinned entries first, each part newest first
+export function orderHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return entries.filter((entry) => entry.pinned).concat(entries.filter((entry) => !entry.pinned))
+}
+
+// Runs the search again with the autocomplete mode it was made with
+export function historySearchHref(entry: HistoryEntry): string {
+  return `/search?${serializeSearchState({ ...DEFAULT_SEARCH_STATE, q: entry.term, mode: entry.mode })}`
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  clampLoadedPages,
+  DEFAULT_SEARCH_STATE,
+  MAX_LOADED_PAGES,
+  parseSearchState,
+  searchResultsKey,
+  serializeSearchState,
+  toURLSearchParams,
+} from "@/lib/search-params"
+
+describe("parseSearchState", () => {
+  it("falls back to the defaults", () => {
+    expect(parseSearchState(new URLSearchParams(""))).toEqual(DEFAULT_SEARCH_STATE)
+  })
+
+  it("ignores invalid pages, modes and sort orders", () => {
+    const state = parseSearchState(new URLSearchParams("q=create&page=-2&mode=psychic&sort=random&catmode=xor"))
+    expect(state).toEqual({ ...DEFAULT_SEARCH_STATE, q: "create" })
+  })
+
+  it("reads repeated category filters", () => {
+    const state = parseSearchState(new URLSearchParams("cat=Magic&cat=Technology&xcat=Food&catmode=and&page=3"))
+    expect(state.categories).toEqual({ include: ["Magic", "Technology"], exclude: ["Food"], mode: "and" })
+    expect(state.page).toBe(3)
+  })
+})
+
+describe("serializeSearchState", () => {
+  it("leaves the defaults out", () => {
+    expect(serializeSearchState({ ...DEFAULT_SEARCH_STATE, q: "jei" })).toBe("q=jei")
+  })
+
+  it("reads back to the same state", () => {
+    const state = {
+      q: "storage & pipes",
+      page: 2,
+      mode: DEFAULT_SEARCH_STATE.mode,
+      categories: { include: ["Storage"], exclude: ["Magic"], mode: "and" as const },
+      sort: "popularity" as const,
+    }
+    expect(parseSearchState(new URLSearchParams(serializeSearchState(state)))).toEqual(state)
+  })
+})
+
+describe("searchResultsKey", () => {
+  it("is the same whatever the autocomplete mode", () => {
+    const suggester = parseSearchState(new URLSearchParams("q=jei&mode=suggester"))
+    const sayt = parseSearchState(new URLSearchParams("q=jei&mode=sayt"))
+    expect(searchResultsKey(sayt)).toBe(searchResultsKey(suggester))
+  })
+})
+
+describe("toURLSearchParams", () => {
+  it("keeps repeated values and drops missing ones", () => {
+    expect(toURLSearchParams({ q: "jei", cat: ["Magic", "Food"], page: undefined }).toString()).toBe(
+      "q=jei&cat=Magic&cat=Food",
+    )
+  })
+})
+
+describe("clampLoadedPages", () => {
+  it("stops load-more pagination at the page limit", () => {
+    expect(clampLoadedPages({ ...DEFAULT_SEARCH_STATE, page: 500 }).page).toBe(MAX_LOADED_PAGES)
+    expect(clampLoadedPages({ ...DEFAULT_SEARCH_STATE, page: 2 }).page).toBe(2)
+  })
+})
@@ -0,0 +1,89 @@
+import { AUTOCOMPLETE_MODES, type AutocompleteMode } from "@/lib/api/client"
+import { CATEGORY_MODES, SORT_ORDERS, type CategoryFilter, type SortOrder } from "@/lib/api/schemas"
+import { EMPTY_CATEGORY_FILTER } from "@/lib/facets"
+
+// Search state that lives in the URL: ?q=&page=&mode=&cat=&xcat=&catmode=&sort=
+export interface SearchState {
+  q: string
+  // 1-based page; with "load more" pagination, the number of pages loaded
+  page: number
+  mode: AutocompleteMode
+  categories: CategoryFilter
+  sort: SortOrder
+}
+
+export const DEFAULT_SEARCH_STATE: SearchState = {
+  q: "",
+  page: 1,
+  mode: "suggester",
+  categories: EMPTY_CATEGORY_FILTER,
+  sort: "relevance",
+}
+
+export interface SearchParamsLike {
+  get(name: string): string | null
+  getAll(name: string): string[]
+}
+
+export function parseSearchState(params: SearchParamsLike): SearchState {
+  const page = parseInt(params.get("page") ?? "", 10)
+  const mode = AUTOCOMPLETE_MODES.find((value) => value === params.get("mode"))
+  return {
+    q: params.get("q") ?? DEFAULT_SEARCH_STATE.q,
+    page: page > 0 ? page : DEFAULT_SEARCH_STATE.page,
+    mode: mode ?? DEFAULT_SEARCH_STATE.mode,
+    categories: {
+      include: params.getAll("cat"),
+      exclude: params.getAll("xcat"),
+      mode: CATEGORY_MODES.find((value) => value === params.get("catmode")) ?? EMPTY_CATEGORY_FILTER.mode,
+    },
+    sort: SORT_ORDERS.find((value) => value === params.get("sort")) ?? DEFAULT_SEARCH_STATE.sort,
+  }
+}
+
+// Defaults are left out so links stay short
+export function serializeSearchState(state: SearchState): string {
+  const params = new URLSearchParams()
+  if (state.q) params.set("q", state.q)
+  if (state.page !== DEFAULT_SEARCH_STATE.page) params.set("page", String(state.page))
+  if (state.mode !== DEFAULT_SEARCH_STATE.mode) params.set("mode", state.mode)
+  state.categories.include.forEach((category) => params.append("cat", category))
+  state.categories.exclude.forEach((category) => params.append("xcat", category))
+  if (state.categories.mode !== EMPTY_CATEGORY_FILTER.mode) params.set("catmode", state.categories.mode)
+  if (state.sort !== DEFAULT_SEARCH_STATE.sort) params.set("sort", state.sort)
+  return params.toString()
+}
+
+// The mode only affects autocomplete, so the URL is updated in place without a server round trip
+export function replaceAutocompleteMode(state: SearchState, mode: AutocompleteMode) {
+  const queryString = serializeSearchState({ ...state, mode })
+  window.history.replaceState(null, "", queryString ? `?${queryString}` : window.location.pathname)
+}
+
+// Identifies the result set of a search; the autocomplete mode does not change results
+export function searchResultsKey(state: SearchState): string {
+  return serializeSearchState({ ...state, mode: DEFAULT_SEARCH_STATE.mode })
+}
+
+export const SEARCH_PAGE_SIZE = 10
+
+// "Load more" fetches every page up to the current one in a single request, so it stops at this
+// many; numbered pages have no such limit
+export const MAX_LOADED_PAGES = 10
+
+export function clampLoadedPages(state: SearchState): SearchState {
+  return state.page > MAX_LOADED_PAGES ? { ...state, page: MAX_LOADED_PAGES } : state
+}
+
+// `searchParams` as passed to App Router pages
+export type PageSearchParams = Record<string, string | string[] | undefined>
+
+export function toURLSearchParams(record: PageSearchParams): URLSearchParams {
+  const params = new URLSearchParams()
+  Object.keys(record).forEach((key) => {
+    const value = record[key]
+    if (Array.isArray(value)) value.forEach((item) => params.append(key, item))
+    else if (value !== undefined) params.set(key, value)
+  })
+  return params
+}
@@ -0,0 +1,17 @@
+// User settings the server needs while rendering are kept in cookies
+
+export const PAGINATION_MODES = ["load-more", "numbered"] as const
+
+export type PaginationMode = (typeof PAGINATION_MODES)[number]
+
+export const PAGINATION_COOKIE = "mods-search-pagination"
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365
+
+export function parsePaginationMode(value: string | undefined): PaginationMode {
+  return PAGINATION_MODES.find((mode) => mode === value) ?? "load-more"
+}
+
+export function savePaginationMode(mode: PaginationMode) {
+  document.cookie = `${PAGINATION_COOKIE}=${mode}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { cacheSummary, findCachedSummary, SUMMARY_TTL_MS, summaryCacheStore } from "@/lib/summary-cache"
+
+function summary(modId: number, text = `Summary of ${modId}`) {
+  return { mod_id: String(modId), title: `Mod ${modId}`, summary: text }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  summaryCacheStore.write(() => [])
+})
+
+describe("findCachedSummary", () => {
+  const entries = [{ summary: summary(1), cachedAt: 1000 }]
+
+  it("finds a summary until it expires", () => {
+    expect(findCachedSummary(entries, 1, 1000 + SUMMARY_TTL_MS - 1)).toEqual(summary(1))
+    expect(findCachedSummary(entries, 1, 1000 + SUMMARY_TTL_MS)).toBeUndefined()
+  })
+
+  it("knows nothing of other mods", () => {
+    expect(findCachedSummary(entries, 2, 1000)).toBeUndefined()
+  })
+})
+
+describe("cacheSummary", () => {
+  it("replaces the mod's older summary and puts it first", () => {
+    cacheSummary(summary(1, "Old"))
+    cacheSummary(summary(2))
+    cacheSummary(summary(1, "New"))
+    expect(summaryCacheStore.read().map((entry) => entry.summary.summary)).toEqual(["New", "Summary of 2"])
+  })
+
+  it("drops expired summaries", () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    cacheSummary(summary(1))
+    vi.setSystemTime(SUMMARY_TTL_MS)
+    cacheSummary(summary(2))
+    expect(summaryCacheStore.read().map((entry) => entry.summary.mod_id)).toEqual(["2"])
+  })
+})
@@ -0,0 +1,48 @@
+import { z } from "zod"
+
+import { summaryResponseSchema, type SummaryResponse } from "@/lib/api/schemas"
+import { createLocalStore } from "@/lib/local-store"
+
+// Summaries are regenerated now and then, so a cached one is only trusted for a while
+export const SUMMARY_TTL_MS = 30 * 60 * 1000
+const MAX_CACHED_SUMMARIES = 100
+
+const cachedSummarySchema = z.object({
+  summary: summaryResponseSchema,
+  cachedAt: z.number(),
+})
+
+export type CachedSummary = z.infer<typeof cachedSummarySchema>
+
+const NO_SUMMARIES: CachedSummary[] = []
+
+// Most recently cached first, for this tab only
+export const summaryCacheStore = createLocalStore(
+  "mods-search:summaries",
+  z.array(cachedSummarySchema),
+  NO_SUMMARIES,
+  "session",
+)
+
+function isFresh(entry: CachedSummary, now: number): boolean {
+  return now - entry.cachedAt < SUMMARY_TTL_MS
+}
+
+export function findCachedSummary(
+  entries: CachedSummary[],
+  modId: number,
+  now = Date.now(),
+): SummaryResponse | undefined {
+  const entry = entries.find((candidate) => candidate.summary.mod_id === String(modId))
+  return entry && isFresh(entry, now) ? entry.summary : undefined
+}
+
+// Expired entries are dropped on the way
+export function cacheSummary(summary: SummaryResponse) {
+  const now = Date.now()
+  summaryCacheStore.write((entries) =>
+    [{ summary, cachedAt: now }]
+      .concat(entries.filter((entry) => entry.summary.mod_id !== summary.mod_id && isFresh(entry, now)))
+      .slice(0, MAX_CACHED_SUMMARIES),
+  )
+}
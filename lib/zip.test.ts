@@ -0,0 +1,72 @@
+import { deflateRawSync } from "zlib"
+import { describe, expect, it } from "vitest"
+
+import { createZip, openZip } from "@/lib/zip"
+
+// createZip only stores, real jars are deflated: one deflated entry, CRC left at 0 as openZip ignores it
+function deflatedZip(path: string, text: string): Blob {
+  const name = new TextEncoder().encode(path)
+  const data = deflateRawSync(Buffer.from(text))
+  const size = Buffer.from(text).length
+
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(20, 4)
+  local.writeUInt16LE(8, 8)
+  local.writeUInt32LE(data.length, 18)
+  local.writeUInt32LE(size, 22)
+  local.writeUInt16LE(name.length, 26)
+
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(0x02014b50, 0)
+  central.writeUInt16LE(20, 6)
+  central.writeUInt16LE(8, 10)
+  central.writeUInt32LE(data.length, 20)
+  central.writeUInt32LE(size, 24)
+  central.writeUInt16LE(name.length, 28)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(1, 8)
+  end.writeUInt16LE(1, 10)
+  end.writeUInt32LE(46 + name.length, 12)
+  end.writeUInt32LE(30 + name.length + data.length, 16)
+
+  return new Blob([local, name, data, central, name, end])
+}
+
+describe("createZip and openZip", () => {
+  it("reads back what was written", async () => {
+    const zip = await openZip(
+      createZip([
+        { path: "pack.toml", content: 'name = "Pack"\n' },
+        { path: "mods/", content: "" },
+        { path: "mods/jei.pw.toml", content: "project-id = 238222\n" },
+      ]),
+    )
+    expect(zip.paths).toEqual(["pack.toml", "mods/", "mods/jei.pw.toml"])
+    expect(await zip.readText("pack.toml")).toBe('name = "Pack"\n')
+    expect(await zip.readText("mods/jei.pw.toml")).toBe("project-id = 238222\n")
+  })
+
+  it("keeps UTF-8 names and contents", async () => {
+    const zip = await openZip(createZip([{ path: "überpack/名前.txt", content: "⛏️ déjà vu" }]))
+    expect(zip.paths).toEqual(["überpack/名前.txt"])
+    expect(await zip.readText("überpack/名前.txt")).toBe("⛏️ déjà vu")
+  })
+
+  it("answers undefined for a missing file", async () => {
+    const zip = await openZip(createZip([{ path: "a.txt", content: "a" }]))
+    expect(await zip.readText("b.txt")).toBeUndefined()
+  })
+
+  it("inflates deflated entries", async () => {
+    const text = '{ "id": "examplemod", "version": "1.0.0" }'.repeat(20)
+    const zip = await openZip(deflatedZip("fabric.mod.json", text))
+    expect(await zip.readText("fabric.mod.json")).toBe(text)
+  })
+
+  it("rejects what is not a zip", async () => {
+    await expect(openZip(new Blob(["just some text"]))).rejects.toThrow("Not a zip file")
+  })
+})
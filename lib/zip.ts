@@ -0,0 +1,194 @@
+// Minimal zip support. The writer for the modpack exports stores entries uncompressed, which every
+// unzip tool and launcher reads; the files are small text, so compression would not buy much. The
+// reader only pulls single files out of mod jars, inflating them with the browser's own
+// DecompressionStream.
+
+export interface ZipEntry {
+  path: string
+  content: string | Uint8Array
+}
+
+let crcTable: number[] | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = []
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable.push(c >>> 0)
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, the only timestamp format plain zip headers have
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+class ByteWriter {
+  chunks: Uint8Array[] = []
+  length = 0
+
+  bytes(data: Uint8Array) {
+    this.chunks.push(data)
+    this.length += data.length
+  }
+
+  uint16(value: number) {
+    this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff]))
+  }
+
+  uint32(value: number) {
+    this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]))
+  }
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const body = new ByteWriter()
+  const directory = new ByteWriter()
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.path)
+    const data = typeof entry.content === "string" ? encoder.encode(entry.content) : entry.content
+    const crc = crc32(data)
+    const offset = body.length
+
+    // Local file header; bit 11 marks the name as UTF-8
+    body.uint32(0x04034b50)
+    body.uint16(20)
+    body.uint16(0x0800)
+    body.uint16(0)
+    body.uint16(time)
+    body.uint16(date)
+    body.uint32(crc)
+    body.uint32(data.length)
+    body.uint32(data.length)
+    body.uint16(name.length)
+    body.uint16(0)
+    body.bytes(name)
+    body.bytes(data)
+
+    // Central directory entry pointing back at it
+    directory.uint32(0x02014b50)
+    directory.uint16(20)
+    directory.uint16(20)
+    directory.uint16(0x0800)
+    directory.uint16(0)
+    directory.uint16(time)
+    directory.uint16(date)
+    directory.uint32(crc)
+    directory.uint32(data.length)
+    directory.uint32(data.length)
+    directory.uint16(name.length)
+    directory.uint16(0)
+    directory.uint16(0)
+    directory.uint16(0)
+    directory.uint16(0)
+    directory.uint32(0)
+    directory.uint32(offset)
+    directory.bytes(name)
+  })
+
+  // End of central directory record
+  const directoryOffset = body.length
+  const directorySize = directory.length
+  directory.uint32(0x06054b50)
+  directory.uint16(0)
+  directory.uint16(0)
+  directory.uint16(entries.length)
+  directory.uint16(entries.length)
+  directory.uint32(directorySize)
+  directory.uint32(directoryOffset)
+  directory.uint16(0)
+
+  return new Blob(body.chunks.concat(directory.chunks), { type: "application/zip" })
+}
+
+export interface ZipReader {
+  paths: string[]
+  // Undefined when the archive has no such file
+  readText(path: string): Promise<string | undefined>
+}
+
+interface ZipDirectoryEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer())
+}
+
+// End of central directory record: 22 bytes plus a comment of up to 64 KiB
+const END_RECORD_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+
+// Reads the central directory up front and entries on demand, so large jars are never loaded whole.
+// Throws when the blob is not a zip or uses a compression method other than stored or deflate.
+export async function openZip(blob: Blob): Promise<ZipReader> {
+  const tailStart = Math.max(0, blob.size - END_RECORD_SIZE - MAX_COMMENT_SIZE)
+  const tail = await readBytes(blob, tailStart, blob.size)
+  let end = -1
+  for (let i = tail.byteLength - END_RECORD_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error("Not a zip file")
+
+  const count = tail.getUint16(end + 10, true)
+  const directorySize = tail.getUint32(end + 12, true)
+  const directoryOffset = tail.getUint32(end + 16, true)
+  const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize)
+  const decoder = new TextDecoder()
+
+  const entries: Record<string, ZipDirectoryEntry> = {}
+  const paths: string[] = []
+  let position = 0
+  for (let n = 0; n < count && directory.getUint32(position, true) === 0x02014b50; n++) {
+    const nameLength = directory.getUint16(position + 28, true)
+    const extraLength = directory.getUint16(position + 30, true)
+    const commentLength = directory.getUint16(position + 32, true)
+    const name = decoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength),
+    )
+    entries[name] = {
+      method: directory.getUint16(position + 10, true),
+      compressedSize: directory.getUint32(position + 20, true),
+      localHeaderOffset: directory.getUint32(position + 42, true),
+    }
+    paths.push(name)
+    position += 46 + nameLength + extraLength + commentLength
+  }
+
+  return {
+    paths,
+    async readText(path) {
+      const entry = entries[path]
+      if (!entry) return undefined
+
+      // The local header's name and extra field lengths can differ from the central directory's
+      const header = await readBytes(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30)
+      const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+      const data = blob.slice(dataStart, dataStart + entry.compressedSize)
+
+      if (entry.method === 0) return decoder.decode(await data.arrayBuffer())
+      if (entry.method === 8) {
+        const inflated = data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+        return new Response(inflated).text()
+      }
+      throw new Error(`Unsupported compression method ${entry.method} for ${path}`)
+    },
+  }
+}